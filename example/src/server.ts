@@ -93,7 +93,7 @@ const rootNode = xprv.node({
 export const xprvApp = xprv.app({
 	rootNode,
 	errorHandlers: {
-		onInternalServerError: (error, req, res) => {
+		onInternalServerError: (error, request) => {
 			return xprv.json({
 				status: 500,
 				body: { message: "Internal server error" },
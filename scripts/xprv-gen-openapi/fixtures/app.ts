@@ -0,0 +1,23 @@
+import { z } from "zod";
+import xprv from "../../../src/index";
+
+const bearer = xprv.auth.bearer(async (token) => token === "secret" ? { id: "user" } : undefined);
+
+const usersNode = xprv.node({
+    path: "/users/:id",
+    handlers: (scope) => ({
+        get: scope.handler
+            .withInput({ query: z.object({ fields: z.array(z.string()).optional() }) })
+            .withOutput({ 200: z.object({ id: z.string(), name: z.string() }) })
+            .handle(async ({ params }) => xprv.json({ status: 200, body: { id: params.id, name: "Ada" } })),
+        put: scope.handler
+            .auth(bearer)
+            .withInput({ body: z.object({ name: z.string() }) })
+            .handle(async ({ params, body }) => xprv.json({ status: 200, body: { id: params.id, name: body.name } })),
+    }),
+});
+
+export const fixtureApp = xprv.app({
+    rootNode: xprv.node({ path: "/", children: [usersNode] }),
+    query: { arrays: "brackets" },
+});
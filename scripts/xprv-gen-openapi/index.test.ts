@@ -0,0 +1,83 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const root = path.resolve(__dirname, "../..");
+
+// runs the generator as the CLI does, on the fixture app
+async function generate(): Promise<unknown> {
+	const outputPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "xprv-openapi-")), "app.openapi.json");
+	await promisify(execFile)(
+		process.execPath,
+		[
+			"--import", "tsx",
+			path.join(__dirname, "index.ts"),
+			path.join(__dirname, "fixtures/app.ts"),
+			"fixtureApp",
+			outputPath,
+			"--tsconfig", path.join(root, "tsconfig.test.json"),
+		],
+		{ cwd: root, timeout: 300_000 }
+	);
+	return JSON.parse(await fs.readFile(outputPath, "utf8"));
+}
+
+// reads a value nested in the generated JSON, failing on anything that is not an object along the way
+function at(value: unknown, ...keys: string[]): unknown {
+	return keys.reduce((current, key) => {
+		assert.ok(typeof current === "object" && current !== null, `expected an object holding "${key}"`);
+		return (current as Record<string, unknown>)[key];
+	}, value);
+}
+
+function list(value: unknown): unknown[] {
+	assert.ok(Array.isArray(value), "expected an array");
+	return value;
+}
+
+describe("xprv-gen-openapi", () => {
+	let document: unknown;
+	before(async () => {
+		document = await generate();
+	});
+
+	it("emits declared outputs and the app's error responses", () => {
+		const get = at(document, "paths", "/users/:id", "get");
+		assert.deepEqual(at(get, "responses", "200", "content", "application/json", "schema", "required"), ["id", "name"]);
+		assert.deepEqual(at(get, "responses", "400"), { $ref: "#/components/responses/ValidationError" });
+		assert.ok(at(get, "responses", "500"));
+	});
+
+	it("serializes query arrays like the app's codec", () => {
+		const [fields] = list(at(document, "paths", "/users/:id", "get", "parameters"))
+			.filter((param) => at(param, "in") === "query");
+		assert.deepEqual(
+			{ name: at(fields, "name"), style: at(fields, "style"), explode: at(fields, "explode") },
+			{ name: "fields[]", style: "form", explode: true }
+		);
+	});
+
+	it("references the body parse errors from operations taking a body", () => {
+		const get = at(document, "paths", "/users/:id", "get");
+		const put = at(document, "paths", "/users/:id", "put");
+		assert.deepEqual(at(put, "responses", "413"), { $ref: "#/components/responses/BodyParseError413" });
+		assert.deepEqual(at(put, "responses", "400", "content", "application/json", "schema", "oneOf"), [
+			{ $ref: "#/components/responses/ValidationError/content/application~1json/schema" },
+			{ $ref: "#/components/responses/BodyParseError400/content/application~1json/schema" },
+		]);
+		assert.equal(at(get, "responses", "413"), undefined);
+		assert.ok(at(document, "components", "responses", "BodyParseError400"));
+		assert.ok(at(document, "components", "responses", "BodyParseError413"));
+	});
+
+	it("lists auth schemes and their responses", () => {
+		const put = at(document, "paths", "/users/:id", "put");
+		assert.deepEqual(at(put, "security"), [{ bearerAuth: [] }]);
+		assert.deepEqual(at(document, "components", "securitySchemes"), { bearerAuth: { type: "http", scheme: "bearer" } });
+		assert.ok(at(put, "responses", "401", "headers", "www-authenticate"));
+	});
+});
@@ -9,6 +9,7 @@ import { findTsConfig } from "./utils.js";
 import { SchemaGenerator } from "./schema-generator.js";
 import { OpenApiBuilder, findResponseByStatus, responseRepresentationToObject, cloneResponse } from "./openapi-builder.js";
 import { extractResponses, traverseRoutes } from "./route-traversal.js";
+import { getQueryArrayFormat } from "./type-utils.js";
 
 async function main() {
 	const args = parseArgs(process.argv);
@@ -58,6 +59,8 @@ async function main() {
 
 	const [rootNodeType, internalErrorType, notFoundType, methodNotAllowedType, validationErrorType] =
 		typeArguments as [Type, Type, Type, Type, Type];
+	// apps typed before body parse errors were added have no 7th argument
+	const bodyParseErrorType = typeArguments[6];
 
 	// Initialize generators
 	const schemaGenerator = new SchemaGenerator(tsconfigPath, sourcePath);
@@ -67,6 +70,9 @@ async function main() {
 	const validationResponses = extractResponses(validationErrorType, schemaGenerator);
 	const notFoundResponses = extractResponses(notFoundType, schemaGenerator);
 	const methodNotAllowedResponses = extractResponses(methodNotAllowedType, schemaGenerator);
+	// one component per status, e.g. 400 for malformed bodies and 413 for oversized ones
+	const bodyParseErrorResponses = (bodyParseErrorType ? extractResponses(bodyParseErrorType, schemaGenerator) : [])
+		.map((response) => ({ ...response, ref: `BodyParseError${response.status}` }));
 
 	const internalServerErrorResponse =
 		findResponseByStatus(internalResponses, "500", "Internal Server Error") ??
@@ -76,6 +82,9 @@ async function main() {
 		"400",
 		"Validation Error"
 	);
+	if (validationErrorResponse) {
+		validationErrorResponse.ref = "ValidationError";
+	}
 	const notFoundResponse = findResponseByStatus(notFoundResponses, "404", "Not Found");
 	const methodNotAllowedResponse = findResponseByStatus(
 		methodNotAllowedResponses,
@@ -84,7 +93,7 @@ async function main() {
 	);
 
 	// Build OpenAPI document
-	const builder = new OpenApiBuilder();
+	const builder = new OpenApiBuilder(getQueryArrayFormat(variableDeclaration));
 
 	traverseRoutes(
 		rootNodeType,
@@ -92,7 +101,8 @@ async function main() {
 		builder,
 		schemaGenerator,
 		internalServerErrorResponse,
-		validationErrorResponse
+		validationErrorResponse,
+		bodyParseErrorResponses
 	);
 
 	// Build components
@@ -106,6 +116,9 @@ async function main() {
 	if (validationErrorResponse) {
 		responseComponents.ValidationError = responseRepresentationToObject(validationErrorResponse);
 	}
+	for (const response of bodyParseErrorResponses) {
+		responseComponents[response.ref] = responseRepresentationToObject(response);
+	}
 
 	const components: Record<string, unknown> = {
 		schemas: schemaGenerator.getComponents(),
@@ -113,6 +126,10 @@ async function main() {
 	if (Object.keys(responseComponents).length > 0) {
 		components.responses = responseComponents;
 	}
+	const securitySchemes = builder.getSecuritySchemes();
+	if (Object.keys(securitySchemes).length > 0) {
+		components.securitySchemes = securitySchemes;
+	}
 
 	// Generate final OpenAPI document
 	const openApiDocument = {
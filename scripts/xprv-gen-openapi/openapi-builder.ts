@@ -1,12 +1,19 @@
-import type { OperationRepresentation, ResponseRepresentation } from "./types.js";
+import type {
+	OperationRepresentation,
+	ParameterRepresentation,
+	QueryArrayFormat,
+	ResponseRepresentation,
+	SecuritySchemeRepresentation,
+} from "./types.js";
+import { sameSecurityScheme } from "./utils.js";
 
 export function responseRepresentationToObject(response: ResponseRepresentation): Record<string, unknown> {
-	const content = response.schema
-		? {
-			"application/json": {
-				schema: response.schema,
-			},
-		}
+	const entries = Object.entries({
+		...(response.schema ? { "application/json": response.schema } : {}),
+		...(response.content ?? {}),
+	});
+	const content = entries.length > 0
+		? Object.fromEntries(entries.map(([mediaType, schema]) => [mediaType, { schema }]))
 		: undefined;
 
 	return {
@@ -22,9 +29,15 @@ export function cloneResponse(response: ResponseRepresentation): ResponseReprese
 		description: response.description,
 		schema: response.schema,
 	};
+	if (response.content) {
+		clone.content = { ...response.content };
+	}
 	if (response.headers) {
 		clone.headers = { ...response.headers };
 	}
+	if (response.ref) {
+		clone.ref = response.ref;
+	}
 	return clone;
 }
 
@@ -46,16 +59,22 @@ export function findResponseByStatus(
 
 export class OpenApiBuilder {
 	private readonly paths = new Map<string, Record<string, unknown>>();
+	private readonly securitySchemes = new Map<string, SecuritySchemeRepresentation>();
+
+	constructor(private readonly queryArrays: QueryArrayFormat = "repeat") {}
 
 	addOperation(operation: OperationRepresentation) {
 		const methodKey = operation.method.toLowerCase();
 		const pathItem = this.paths.get(operation.path) ?? {};
 
 		const parameters = operation.request.parameters.map((param) => ({
-			name: param.name,
+			name: param.in === "query" && param.shape === "array" && this.queryArrays === "brackets"
+				? `${param.name}[]`
+				: param.name,
 			in: param.in,
 			required: param.required,
 			schema: param.schema,
+			...this.serialization(param),
 		}));
 
 		const responses = this.buildResponses(operation.responses);
@@ -69,11 +88,17 @@ export class OpenApiBuilder {
 			op.parameters = parameters;
 		}
 
+		if (operation.security) {
+			op.security = [Object.fromEntries(
+				operation.security.map((scheme) => [this.securitySchemeName(scheme), []])
+			)];
+		}
+
 		if (operation.request.requestBody) {
 			op.requestBody = {
 				required: operation.request.requestBody.required,
 				content: {
-					"application/json": {
+					[operation.request.requestBody.contentType ?? "application/json"]: {
 						schema: operation.request.requestBody.schema,
 					},
 				},
@@ -88,8 +113,43 @@ export class OpenApiBuilder {
 		return Object.fromEntries(this.paths);
 	}
 
+	// style and explode matching the app's query codec, nested objects are always bracketed
+	private serialization(param: ParameterRepresentation) {
+		if (param.in !== "query" || param.shape === undefined) {
+			return {};
+		}
+		if (param.shape === "object") {
+			return { style: "deepObject", explode: true };
+		}
+		return { style: "form", explode: this.queryArrays !== "comma" };
+	}
+
+	getSecuritySchemes(): Record<string, unknown> {
+		return Object.fromEntries(this.securitySchemes);
+	}
+
+	// e.g. bearerAuth, basicAuth and apiKeyAuth, numbered when API keys differ
+	private securitySchemeName(scheme: SecuritySchemeRepresentation): string {
+		for (const [name, existing] of this.securitySchemes) {
+			if (sameSecurityScheme(existing, scheme)) {
+				return name;
+			}
+		}
+		const base = `${scheme.type === "http" ? scheme.scheme : "apiKey"}Auth`;
+		let name = base;
+		for (let index = 2; this.securitySchemes.has(name); index++) {
+			name = `${base}${index}`;
+		}
+		this.securitySchemes.set(name, scheme);
+		return name;
+	}
+
 	private buildResponses(responses: ResponseRepresentation[]): Record<string, unknown> {
 		const merged = new Map<string, ResponseRepresentation>();
+		// a response component merged with others is still referenced, through its schema
+		const schemaOf = (response: ResponseRepresentation) => response.ref
+			? { $ref: `#/components/responses/${response.ref}/content/application~1json/schema` }
+			: response.schema;
 
 		const merge = (incoming: ResponseRepresentation) => {
 			const existing = merged.get(incoming.status);
@@ -106,7 +166,7 @@ export class OpenApiBuilder {
 			let schema: unknown;
 			if (existing.schema && incoming.schema) {
 				schema = {
-					oneOf: [existing.schema, incoming.schema],
+					oneOf: [schemaOf(existing), schemaOf(incoming)],
 				};
 			} else {
 				schema = existing.schema ?? incoming.schema;
@@ -127,6 +187,14 @@ export class OpenApiBuilder {
 				mergedResponse.schema = schema;
 			}
 
+			const combinedContent = {
+				...(existing.content ?? {}),
+				...(incoming.content ?? {}),
+			};
+			if (Object.keys(combinedContent).length > 0) {
+				mergedResponse.content = combinedContent;
+			}
+
 			if (Object.keys(combinedHeaders).length > 0) {
 				mergedResponse.headers = combinedHeaders;
 			}
@@ -138,7 +206,9 @@ export class OpenApiBuilder {
 
 		const result: Record<string, unknown> = {};
 		for (const [status, response] of merged.entries()) {
-			result[status] = responseRepresentationToObject(response);
+			result[status] = response.ref
+				? { $ref: `#/components/responses/${response.ref}` }
+				: responseRepresentationToObject(response);
 		}
 
 		return result;
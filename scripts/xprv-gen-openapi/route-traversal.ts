@@ -1,13 +1,14 @@
 import { Type } from "ts-morph";
 import { SchemaGenerator } from "./schema-generator.js";
 import { OpenApiBuilder, cloneResponse } from "./openapi-builder.js";
-import { cleanSymbolName, joinPaths, getLiteralString, createOperationId } from "./utils.js";
-import { splitUndefined, isTrivialRequestComponent, hasRequestValidation } from "./type-utils.js";
+import { cleanSymbolName, joinPaths, getLiteralString, createOperationId, sameSecurityScheme } from "./utils.js";
+import { splitUndefined, isTrivialRequestComponent, hasRequestValidation, getPropertyType } from "./type-utils.js";
 import type { 
 	RouteNodeInfo, 
 	ResponseRepresentation, 
 	RequestRepresentation,
-	ParameterRepresentation 
+	ParameterRepresentation,
+	SecuritySchemeRepresentation
 } from "./types.js";
 
 export function headersFromType(
@@ -71,30 +72,177 @@ export function extractResponses(type: Type, generator: SchemaGenerator): Respon
 
 		if (symbol?.getName() === "JsonResponse") {
 			const [statusArg, bodyArg, headersArg] = current.getTypeArguments();
-			const status = statusArg?.isNumberLiteral()
-				? String(statusArg.getLiteralValue())
-				: "default";
-			const bodySplit = bodyArg ? splitUndefined(bodyArg) : { types: [], optional: false };
-			const hasBody = bodySplit.types.length > 0 && !bodySplit.types.every((t) => t.isUndefined());
-			const response: ResponseRepresentation = {
-				status,
-				description: `HTTP ${status}`,
-			};
-			if (hasBody) {
-				response.schema = generator.getSchemaFor(bodySplit.types);
-			}
-			const headers = headersArg ? headersFromType(headersArg, generator) : undefined;
-			if (headers) {
-				response.headers = headers;
+			results.push(jsonResponse(statusArg, bodyArg, headersArg, generator));
+			continue;
+		}
+
+		if (symbol?.getName() === "UnauthorizedResponse") {
+			// extends JsonResponse, its type argument is the auth scheme
+			results.push(jsonResponse(
+				getPropertyType(current, "status"),
+				getPropertyType(current, "body"),
+				getPropertyType(current, "headers"),
+				generator
+			));
+			continue;
+		}
+
+		if (symbol?.getName() === "TextResponse") {
+			const [statusArg, bodyArg, headersArg] = current.getTypeArguments();
+			results.push(nonJsonResponse(statusArg, headersArg, generator, {
+				"text/plain": bodyArg ? generator.getSchemaFor([bodyArg]) : { type: "string" },
+			}));
+			continue;
+		}
+
+		if (symbol?.getName() === "BinaryResponse" || symbol?.getName() === "FileResponse") {
+			const [statusArg, headersArg] = current.getTypeArguments();
+			const response = nonJsonResponse(statusArg, headersArg, generator, {
+				"application/octet-stream": { type: "string", format: "binary" },
+			});
+			if (symbol.getName() === "FileResponse") {
+				response.headers = {
+					"Content-Disposition": { required: true, schema: { type: "string" } },
+					...response.headers,
+				};
 			}
 			results.push(response);
 			continue;
 		}
+
+		if (symbol?.getName() === "RedirectResponse") {
+			const [statusArg, headersArg] = current.getTypeArguments();
+			const response = nonJsonResponse(statusArg, headersArg, generator);
+			response.headers = {
+				Location: { required: true, schema: { type: "string" } },
+				...response.headers,
+			};
+			results.push(response);
+			continue;
+		}
+
+		if (symbol?.getName() === "EventStreamResponse") {
+			// each event is documented as the schema of a text/event-stream item
+			const [eventArg] = current.getTypeArguments();
+			results.push({
+				status: "200",
+				description: "Stream of server-sent events",
+				content: {
+					"text/event-stream": eventArg ? generator.getSchemaFor([eventArg]) : {},
+				},
+			});
+			continue;
+		}
 	}
 
 	return results;
 }
 
+function jsonResponse(
+	statusArg: Type | undefined,
+	bodyArg: Type | undefined,
+	headersArg: Type | undefined,
+	generator: SchemaGenerator
+): ResponseRepresentation {
+	const status = statusArg?.isNumberLiteral()
+		? String(statusArg.getLiteralValue())
+		: "default";
+	const bodySplit = bodyArg ? splitUndefined(bodyArg) : { types: [], optional: false };
+	const hasBody = bodySplit.types.length > 0 && !bodySplit.types.every((t) => t.isUndefined());
+	const response: ResponseRepresentation = {
+		status,
+		description: `HTTP ${status}`,
+	};
+	if (hasBody) {
+		response.schema = generator.getSchemaFor(bodySplit.types);
+	}
+	const headers = headersArg ? headersFromType(headersArg, generator) : undefined;
+	if (headers) {
+		response.headers = headers;
+	}
+	return response;
+}
+
+/**
+ * Auth schemes of a handler, read from the `UnauthorizedResponse`s of its response union
+ */
+export function extractSecuritySchemes(type: Type): SecuritySchemeRepresentation[] {
+	const queue: Type[] = [type];
+	const results: SecuritySchemeRepresentation[] = [];
+
+	while (queue.length > 0) {
+		const current = queue.pop();
+		if (!current) {
+			continue;
+		}
+		if (current.isUnion()) {
+			queue.push(...current.getUnionTypes());
+			continue;
+		}
+		if (current.getSymbol()?.getName() !== "UnauthorizedResponse") {
+			continue;
+		}
+
+		const [infoArg] = current.getTypeArguments();
+		const literal = (name: string) => {
+			const property = infoArg && getPropertyType(infoArg, name);
+			return property ? getLiteralString(property) : undefined;
+		};
+		const scheme = literal("scheme");
+		const location = literal("in");
+		const name = literal("name");
+		let security: SecuritySchemeRepresentation | undefined;
+		if (literal("type") === "http" && scheme) {
+			security = { type: "http", scheme };
+		} else if (literal("type") === "apiKey" && (location === "header" || location === "query") && name) {
+			security = { type: "apiKey", in: location, name };
+		}
+		if (security && !results.some((existing) => sameSecurityScheme(existing, security))) {
+			results.push(security);
+		}
+	}
+
+	// the queue pops from the end, restore declaration order
+	return results.reverse();
+}
+
+function nonJsonResponse(
+	statusArg: Type | undefined,
+	headersArg: Type | undefined,
+	generator: SchemaGenerator,
+	content?: Record<string, unknown>
+): ResponseRepresentation {
+	const status = statusArg?.isNumberLiteral()
+		? String(statusArg.getLiteralValue())
+		: "default";
+	const response: ResponseRepresentation = {
+		status,
+		description: `HTTP ${status}`,
+	};
+	if (content) {
+		response.content = content;
+	}
+	const headers = headersArg ? headersFromType(headersArg, generator) : undefined;
+	if (headers) {
+		response.headers = headers;
+	}
+	return response;
+}
+
+// dates are sent as strings, so they are not objects here
+function queryParameterShape(types: Type[]): ParameterRepresentation["shape"] {
+	if (types.length === 0) {
+		return undefined;
+	}
+	if (types.every((type) => type.isArray() || type.isTuple())) {
+		return "array";
+	}
+	if (types.every((type) => type.isObject() && type.getSymbol()?.getName() !== "Date")) {
+		return "object";
+	}
+	return undefined;
+}
+
 export function buildParameters(
 	type: Type | undefined, 
 	location: "query" | "header" | "path", 
@@ -121,11 +269,13 @@ export function buildParameters(
 			? property.getTypeAtLocation(declaration)
 			: property.getDeclaredType();
 		const { types, optional } = splitUndefined(propertyType);
+		const shape = location === "query" ? queryParameterShape(types) : undefined;
 		parameters.push({
 			name,
 			in: location,
 			required: location === "path" ? true : !optional && !property.isOptional(),
 			schema: generator.getSchemaFor(types),
+			...(shape ? { shape } : {}),
 		});
 	}
 
@@ -154,6 +304,22 @@ export function addPathParameters(
 	return parameters;
 }
 
+function isUploadedFileType(type: Type): boolean {
+	const element = type.getArrayElementType() ?? type;
+	return element.getSymbol()?.getName() === "UploadedFile";
+}
+
+// bodies with file fields are sent as multipart/form-data
+function hasUploadedFiles(type: Type): boolean {
+	return type.getProperties().some((property) => {
+		const declaration = property.getValueDeclaration() ?? property.getDeclarations()[0];
+		const propertyType = declaration
+			? property.getTypeAtLocation(declaration)
+			: property.getDeclaredType();
+		return splitUndefined(propertyType).types.some(isUploadedFileType);
+	});
+}
+
 export function extractRequest(
 	type: Type | undefined, 
 	generator: SchemaGenerator, 
@@ -181,6 +347,9 @@ export function extractRequest(
 				required: !optional,
 				schema: generator.getSchemaFor(meaningful),
 			};
+			if (meaningful.some(hasUploadedFiles)) {
+				requestBody.contentType = "multipart/form-data";
+			}
 		}
 	}
 
@@ -221,7 +390,8 @@ export function traverseRoutes(
 	builder: OpenApiBuilder,
 	schemaGenerator: SchemaGenerator,
 	internalServerErrorResponse?: ResponseRepresentation,
-	validationErrorResponse?: ResponseRepresentation
+	validationErrorResponse?: ResponseRepresentation,
+	bodyParseErrorResponses: ResponseRepresentation[] = []
 ) {
 	const info = collectNodeInfo(nodeType);
 	const currentPath = joinPaths(basePath, info.path);
@@ -242,6 +412,11 @@ export function traverseRoutes(
 			responses.push(cloneResponse(validationErrorResponse));
 		}
 		const request = extractRequest(requestType, schemaGenerator, currentPath);
+		// malformed and oversized bodies are only answered for handlers declaring one
+		if (request.requestBody) {
+			responses.push(...bodyParseErrorResponses.map(cloneResponse));
+		}
+		const security = responseType ? extractSecuritySchemes(responseType) : [];
 
 		builder.addOperation({
 			method,
@@ -249,6 +424,7 @@ export function traverseRoutes(
 			operationId: createOperationId(method, currentPath),
 			request,
 			responses,
+			...(security.length > 0 ? { security } : {}),
 		});
 	}
 
@@ -259,7 +435,8 @@ export function traverseRoutes(
 			builder,
 			schemaGenerator,
 			internalServerErrorResponse,
-			validationErrorResponse
+			validationErrorResponse,
+			bodyParseErrorResponses
 		);
 	}
 }
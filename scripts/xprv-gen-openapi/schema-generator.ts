@@ -94,6 +94,11 @@ export class SchemaGenerator {
 	}
 
 	getSchema(type: Type): unknown {
+		// files of multipart/form-data bodies
+		if (type.getSymbol()?.getName() === "UploadedFile") {
+			return { type: "string", format: "binary" };
+		}
+
 		const librarySchema = this.tryGenerateSchemaByName(type);
 		if (librarySchema) {
 			return librarySchema;
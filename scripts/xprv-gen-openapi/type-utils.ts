@@ -1,4 +1,5 @@
-import type { Type } from "ts-morph";
+import { Node, type Type, type VariableDeclaration } from "ts-morph";
+import type { QueryArrayFormat } from "./types.js";
 
 export function splitUndefined(type: Type): { types: Type[]; optional: boolean } {
 	if (type.isUnion()) {
@@ -12,6 +13,30 @@ export function splitUndefined(type: Type): { types: Type[]; optional: boolean }
 	return { types: [type], optional: false };
 }
 
+export function getPropertyType(type: Type, name: string): Type | undefined {
+	const property = type.getProperty(name);
+	if (!property) {
+		return undefined;
+	}
+	const declaration = property.getValueDeclaration() ?? property.getDeclarations()[0];
+	return declaration
+		? property.getTypeAtLocation(declaration)
+		: property.getDeclaredType();
+}
+
+// `query.arrays` of the options an app is created with, when written as a literal
+export function getQueryArrayFormat(declaration: VariableDeclaration): QueryArrayFormat | undefined {
+	const initializer = declaration.getInitializer();
+	if (!initializer || !(Node.isCallExpression(initializer) || Node.isNewExpression(initializer))) {
+		return undefined;
+	}
+	const [options] = initializer.getArguments();
+	const queryType = options ? getPropertyType(options.getType(), "query") : undefined;
+	const arraysType = queryType ? getPropertyType(queryType, "arrays") : undefined;
+	const format = arraysType?.getLiteralValue();
+	return format === "repeat" || format === "comma" || format === "brackets" ? format : undefined;
+}
+
 export function isTrivialRequestComponent(type: Type | undefined): boolean {
 	if (!type) {
 		return true;
@@ -12,13 +12,22 @@ export interface ParameterRepresentation {
 	in: "query" | "header" | "path";
 	required: boolean;
 	schema: unknown;
+	// set for query parameters holding arrays or objects, serialized the app's way
+	shape?: "array" | "object";
 }
 
+// `arrays` option of the app's query codec
+export type QueryArrayFormat = "repeat" | "comma" | "brackets";
+
 export interface ResponseRepresentation {
 	status: string;
 	description: string;
 	schema?: unknown;
+	// schemas for media types other than application/json, keyed by media type
+	content?: Record<string, unknown>;
 	headers?: Record<string, { required?: boolean; schema: unknown }>;
+	// name under components.responses, emitted as a $ref unless merged with another response of its status
+	ref?: string;
 }
 
 export interface RequestRepresentation {
@@ -26,15 +35,23 @@ export interface RequestRepresentation {
 	requestBody?: {
 		required: boolean;
 		schema: unknown;
+		// defaults to application/json
+		contentType?: string;
 	};
 }
 
+export type SecuritySchemeRepresentation =
+	| { type: "http"; scheme: string }
+	| { type: "apiKey"; in: "header" | "query"; name: string };
+
 export interface OperationRepresentation {
 	method: string;
 	path: string;
 	operationId: string;
 	request: RequestRepresentation;
 	responses: ResponseRepresentation[];
+	// schemes that must all be satisfied
+	security?: SecuritySchemeRepresentation[];
 }
 
 export interface RouteNodeInfo {
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Symbol as MorphSymbol } from "ts-morph";
+import type { SecuritySchemeRepresentation } from "./types.js";
 
 export function findTsConfig(startDir: string): string | undefined {
 	let currentDir = startDir;
@@ -54,3 +55,8 @@ export function createOperationId(method: string, pathValue: string): string {
 	return `${method.toLowerCase()}_${trimmed || "root"}`;
 }
 
+export function sameSecurityScheme(a: SecuritySchemeRepresentation, b: SecuritySchemeRepresentation) {
+	return a.type === "http" && b.type === "http"
+		? a.scheme === b.scheme
+		: a.type === "apiKey" && b.type === "apiKey" && a.in === b.in && a.name === b.name;
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import xprv, { createTestClient } from '../index';
+import { Client, FetchMethod } from './index';
+import { ClientContractOptions, ContractMode, ContractViolation } from './contract';
+
+const app = xprv.app({
+    rootNode: xprv.node({
+        path: '/',
+        children: [
+            xprv.node({
+                path: '/users/:id',
+                handlers: {
+                    get: xprv.handler
+                        .withOutput({ 200: z.object({ id: z.string() }) })
+                        .handle(async () => xprv.json({ status: 200, body: { id: '1' } })),
+                },
+            }),
+            xprv.node({
+                path: '/health',
+                handlers: {
+                    get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                },
+            }),
+        ],
+    }),
+});
+
+// a server drifting from the app's declared outputs
+function answering(status: number, body: unknown): FetchMethod {
+    return async () => Response.json(body, { status });
+}
+
+function client(fetchMethod: FetchMethod, mode?: ContractMode, schemas: ClientContractOptions['schemas'] = app) {
+    return new Client<typeof app, ContractMode>({
+        baseUrl: 'http://xprv.test',
+        fetchMethod,
+        contract: { schemas, ...(mode === undefined ? {} : { mode }) },
+    });
+}
+
+const user = { params: { id: '1' } };
+
+describe('response contract', () => {
+    it('passes responses matching the declared outputs', async () => {
+        const response = await client(answering(200, { id: '1' })).get('/users/:id', user);
+        assert.equal(response.kind, 'json');
+        assert.equal(response.status, 200);
+    });
+
+    it('turns a body not matching its schema into a violation', async () => {
+        const response = await client(answering(200, { id: 1 })).get('/users/:id', user);
+        assert.equal(response.kind, 'contract-violation');
+        if (response.kind === 'contract-violation') {
+            assert.equal(response.route, '/users/:id');
+            assert.equal(response.received.status, 200);
+            assert.deepEqual(response.error?.issues.map((issue) => issue.path), [['id']]);
+        }
+    });
+
+    it('rejects undeclared success statuses but not error statuses', async () => {
+        const created = await client(answering(201, {})).get('/users/:id', user);
+        assert.equal(created.kind, 'contract-violation');
+        if (created.kind === 'contract-violation') {
+            assert.match(created.message, /answered 201, which it does not declare/);
+        }
+
+        const missing = await client(answering(404, { error: 'Not Found' })).get('/users/:id', user);
+        assert.equal(missing.status, 404);
+    });
+
+    it('does not check routes without declared outputs', async () => {
+        const response = await client(answering(200, { anything: true })).get('/health');
+        assert.equal(response.kind, 'json');
+    });
+
+    it('logs mismatches and returns the response in warn mode', async (t) => {
+        const warned = t.mock.method(console, 'warn', () => {});
+        const response = await client(answering(200, { id: 1 }), 'warn').get('/users/:id', user);
+        assert.equal(response.kind, 'json');
+        assert.equal(warned.mock.callCount(), 1);
+    });
+
+    it('hands mismatches to onViolation in warn mode', async (t) => {
+        const warned = t.mock.method(console, 'warn', () => {});
+        const violations: string[] = [];
+        const warning = new Client<typeof app, 'warn'>({
+            baseUrl: 'http://xprv.test',
+            fetchMethod: answering(200, { id: 1 }),
+            contract: { schemas: app, mode: 'warn', onViolation: (violation) => violations.push(violation.message) },
+        });
+        assert.equal((await warning.get('/users/:id', user)).kind, 'json');
+        assert.deepEqual(violations, ['GET /users/:id answered 200 with a body that does not match its schema']);
+        assert.equal(warned.mock.callCount(), 0);
+    });
+
+    it('checks against a response manifest instead of the app', async () => {
+        const manifest = xprv.responseManifest(app);
+        const response = await client(answering(200, { id: 1 }), 'strict', manifest).get('/users/:id', user);
+        assert.equal(response.kind, 'contract-violation');
+    });
+
+    it('types violations only for clients with a strict contract', async () => {
+        const strict = await createTestClient(app, { contract: { schemas: app } }).get('/users/:id', user);
+        const violation: ContractViolation extends typeof strict ? true : false = true;
+        assert.ok(violation);
+
+        // no violation kind to narrow on without a contract or in warn mode
+        const plain = await createTestClient(app).get('/users/:id', user);
+        const plainKind: Exclude<typeof plain['kind'], 'contract-violation'> = plain.kind;
+        const warned = await createTestClient(app, { contract: { schemas: app, mode: 'warn' } }).get('/users/:id', user);
+        const warnedKind: Exclude<typeof warned['kind'], 'contract-violation'> = warned.kind;
+        assert.deepEqual([plainKind, warnedKind], ['json', 'json']);
+    });
+});
@@ -0,0 +1,107 @@
+import type { ZodError } from 'zod';
+import type { JsonRouteNode } from '../core/json-route-node';
+import type { HttpMethod } from '../core/types/http';
+import { normalizeRoute, ResponseManifest, responseManifest } from '../core/response-manifest';
+import type { AnyClientResponse, ClientJsonResponse } from './index';
+
+/**
+ * - "strict": mismatching responses resolve as `ContractViolation` results
+ * - "warn": mismatches go to `onViolation` and the response is returned as received
+ */
+export type ContractMode = 'strict' | 'warn';
+
+export interface ClientContractOptions {
+    // the app itself, or its output schemas from `responseManifest(app)`
+    schemas: { rootNode: JsonRouteNode<any, any, any> } | ResponseManifest;
+    // defaults to "strict"
+    mode?: ContractMode;
+    // receives the mismatches of "warn" mode, defaults to logging them with `console.warn`
+    onViolation?: (violation: ContractViolation) => void;
+}
+
+/**
+ * Contract option of a client checking responses in `TMode`, which may be left out for "strict"
+ */
+export type ClientContract<TMode extends ContractMode> = TMode extends 'strict'
+    ? ClientContractOptions & { mode?: TMode }
+    : ClientContractOptions & { mode: TMode };
+
+/**
+ * What a contract in `TMode` adds to the responses of a client, only "strict" contracts resolve with violations
+ */
+export type ContractResult<TMode extends ContractMode | undefined> = 'strict' extends TMode ? ContractViolation : never;
+
+/**
+ * JSON response that does not match the output schemas of its route
+ * `status` is 0 so that narrowing on a declared status never matches it, the response is in `received`
+ */
+export interface ContractViolation {
+    readonly kind: 'contract-violation';
+    readonly status: 0;
+    readonly body: undefined;
+    readonly headers: Record<string, string>;
+    readonly message: string;
+    // upper case, e.g. "GET"
+    readonly method: string;
+    // route template, e.g. "/users/:id"
+    readonly route: string;
+    readonly received: ClientJsonResponse<number, unknown, Record<string, string>>;
+    // undefined when no schema is declared for the received status
+    readonly error: ZodError | undefined;
+}
+
+/**
+ * Check of the responses of a client against the declared outputs of the app
+ * Routes without declared outputs and non-JSON responses are not checked,
+ * and undeclared statuses are accepted unless they are 2xx: error handlers, guards
+ * and rate limits answer with statuses the handler does not declare
+ */
+export function responseContract(options: ClientContractOptions) {
+    const manifest = 'rootNode' in options.schemas
+        ? responseManifest(options.schemas as { rootNode: JsonRouteNode<any, any, any> })
+        : options.schemas;
+    const routes = new Map(Object.entries(manifest).map(([route, methods]) => [normalizeRoute(route), methods]));
+    const mode = options.mode ?? 'strict';
+    const onViolation = options.onViolation ?? warnViolation;
+
+    return (method: string, route: string, response: AnyClientResponse): AnyClientResponse => {
+        if (response.kind !== 'json') {
+            return response;
+        }
+        const outputs = routes.get(normalizeRoute(route))?.[method.toLowerCase() as HttpMethod];
+        if (outputs === undefined) {
+            return response;
+        }
+        const schema = outputs[response.status];
+        if (schema === undefined && (response.status < 200 || response.status >= 300)) {
+            return response;
+        }
+        const result = schema?.safeParse(response.body);
+        if (result?.success) {
+            return response;
+        }
+
+        const violation: ContractViolation = {
+            kind: 'contract-violation',
+            status: 0,
+            body: undefined,
+            headers: response.headers,
+            message: result === undefined
+                ? `${method} ${route} answered ${response.status}, which it does not declare`
+                : `${method} ${route} answered ${response.status} with a body that does not match its schema`,
+            method,
+            route,
+            received: response,
+            error: result?.error,
+        };
+        if (mode === 'warn') {
+            onViolation(violation);
+            return response;
+        }
+        return violation;
+    };
+}
+
+function warnViolation(violation: ContractViolation) {
+    console.warn(violation.message, violation.error ?? '');
+}
@@ -0,0 +1,82 @@
+import type { ServerSentEvent } from "../core/event-stream";
+
+/**
+ * Parse a text/event-stream body into events
+ * Data is decoded as JSON, comments (heartbeats) are skipped
+ * Breaking out of the iteration cancels the underlying stream
+ */
+export async function* parseEventStream(
+    stream: ReadableStream<Uint8Array>
+): AsyncIterableIterator<ServerSentEvent> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            // events are separated by a blank line
+            let boundary = buffer.search(/\r?\n\r?\n/);
+            while (boundary !== -1) {
+                const block = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+                const parsed = parseEventBlock(block);
+                if (parsed) {
+                    yield parsed;
+                }
+                boundary = buffer.search(/\r?\n\r?\n/);
+            }
+
+            if (done) {
+                return;
+            }
+        }
+    } finally {
+        await reader.cancel().catch(() => undefined);
+    }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | undefined {
+    const dataLines: string[] = [];
+    const fields: { event?: string; id?: string; retry?: number } = {};
+
+    for (const line of block.split(/\r?\n/)) {
+        if (line === "" || line.startsWith(":")) {
+            continue;
+        }
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+        switch (field) {
+            case "data":
+                dataLines.push(value);
+                break;
+            case "event":
+                fields.event = value;
+                break;
+            case "id":
+                fields.id = value;
+                break;
+            case "retry":
+                fields.retry = Number(value);
+                break;
+        }
+    }
+
+    if (dataLines.length === 0) {
+        return undefined;
+    }
+
+    const raw = dataLines.join("\n");
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        data = raw;
+    }
+
+    return { data, ...fields };
+}
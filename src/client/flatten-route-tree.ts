@@ -1,22 +1,17 @@
 import { JsonRouteNode, JsonRouteHandlers } from "../core/json-route-node";
+import { JoinPaths } from "../core/types/path";
 
 /**
- * Utility type to join two path segments
- * Handles edge cases like root path "/" and empty base path, ensures proper path formatting
+ * Check if a handlers object is empty (has no methods defined)
  */
-type JoinPaths<TParent extends string, TChild extends string> = 
-    TParent extends ""
-        ? TChild
-        : TParent extends "/" 
-            ? TChild
-            : TChild extends "/"
-                ? TParent
-                : `${TParent}${TChild}`;
+type IsEmptyHandlers<THandlers> = [keyof THandlers] extends [never] ? true : false;
 
 /**
- * Check if a handlers object is empty (has no methods defined)
+ * Check if a type is `any`
+ * Children are `any` when a node is built where no children type can be inferred,
+ * recursing into them would never terminate
  */
-type IsEmptyHandlers<THandlers> = [keyof THandlers] extends [never] ? true : false;
+type IsAny<T> = 0 extends 1 & T ? true : false;
 
 /**
  * Helper to distribute over array elements
@@ -31,7 +26,9 @@ type ArrayToUnion<T extends readonly any[]> = T[number];
 type FlattenChildren<
     TChildren extends readonly JsonRouteNode<any, any, any>[],
     TBasePath extends string
-> = TChildren[number] extends JsonRouteNode<any, any, any>
+> = IsAny<TChildren> extends true
+    ? {}
+    : TChildren[number] extends JsonRouteNode<any, any, any>
     ? UnionToIntersection<
         TChildren[number] extends infer TChild
             ? TChild extends JsonRouteNode<any, any, any>
@@ -123,7 +120,9 @@ type CollectNodesAsUnion<
                     : JsonRouteNode<TFullPath, THandlers, []>
                 ) |
                 // Union of all children
-                (TChildren[number] extends JsonRouteNode<any, any, any>
+                (IsAny<TChildren> extends true
+                    ? never
+                    : TChildren[number] extends JsonRouteNode<any, any, any>
                     ? CollectNodesAsUnion<TChildren[number], TFullPath>
                     : never
                 )
@@ -5,6 +5,32 @@ import { JsonRouteHandler } from "../core/json-route-handler";
 import { FlattenRouteTreeToArray, OrganizeRoutesByMethod } from "./flatten-route-tree";
 import { HttpMethod } from "../core/types/http";
 import { JsonRequest } from "../core/types/input";
+import { PathParamNames } from "../core/types/path";
+import type { EventStreamResponse, ServerSentErrorEvent } from "../core/event-stream";
+import type {
+    BinaryResponse,
+    FileResponse,
+    RedirectResponse,
+    TextResponse,
+} from "../core/non-json-response";
+import type { UploadedFile } from "../core/upload";
+import { parseEventStream } from "./event-stream";
+import { interpolatePath } from "./path-params";
+import { ClientInterceptor, ClientRequest, runInterceptors } from "./interceptors";
+import { ClientFailureReason, ClientRequestError, DispatchError } from "./request-error";
+import { ClientRetryOptions, retryDelay, RetryPolicy, retryPolicy, waitToRetry } from "./retry";
+import { ClientContract, ClientContractOptions, ContractMode, ContractResult, ContractViolation, responseContract } from "./contract";
+import { exportSpans, parseTraceparent, RequestTracer, SpanExporter } from "../core/tracing";
+import { QueryCodec, queryCodec, QueryCodecOptions } from "../core/query-codec";
+
+export { MissingPathParamsError } from "./path-params";
+export type { ClientInterceptor, ClientInterceptorContext, ClientRequest } from "./interceptors";
+export { ClientRequestError } from "./request-error";
+export type { ClientFailureReason } from "./request-error";
+export type { ClientRetryOptions, RetryStatusRule } from "./retry";
+export type { ClientContract, ClientContractOptions, ContractMode, ContractResult, ContractViolation } from "./contract";
+export { responseManifest } from "../core/response-manifest";
+export type { ResponseManifest } from "../core/response-manifest";
 
 // ============================================================
 // Helper types for extracting routes by HTTP method
@@ -24,6 +50,13 @@ type ExtractInput<T> = T extends JsonRouteHandler<any, infer TInput, any>
     ? TInput
     : never;
 
+/**
+ * Extract the context type from a JsonRouteHandler
+ */
+type ExtractContext<T> = T extends JsonRouteHandler<any, any, infer TContext>
+    ? TContext
+    : never;
+
 /**
  * Get all paths for a specific HTTP method as a union type
  */
@@ -63,24 +96,41 @@ type InputForPath<
 > = ExtractInput<HandlerForPath<TOrganized, TMethod, TPath>>;
 
 // Tie client typing to the app configuration for richer error awareness.
-type AppRootNode<TApp extends XPRVApp<any, any, any, any, any>> =
-    TApp extends XPRVApp<infer TRootNode extends JsonRouteNode<any, any, any>, any, any, any, any>
+type AppRootNode<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
+    TApp extends XPRVApp<infer TRootNode extends JsonRouteNode<any, any, any>, any, any, any, any, any, any>
         ? TRootNode
         : never;
 
-type AppOrganizedRoutes<TApp extends XPRVApp<any, any, any, any, any>> =
+type AppOrganizedRoutes<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
     OrganizeRoutesByMethod<FlattenRouteTreeToArray<AppRootNode<TApp>>>;
 
-type AppInternalServerErrorResponse<TApp extends XPRVApp<any, any, any, any, any>> =
-    TApp extends XPRVApp<any, infer TInternal, any, any, any>
+/**
+ * Contexts the handlers of an app receive, leaving out the empty context of handlers without one
+ */
+export type AppHandlerContext<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
+    AppOrganizedRoutes<TApp>[keyof AppOrganizedRoutes<TApp>] extends Array<infer R>
+        ? R extends { handler: infer H }
+            ? ExtractContext<H> extends infer TContext
+                ? keyof TContext extends never ? never : TContext & object
+                : never
+            : never
+        : never;
+
+type AppInternalServerErrorResponse<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
+    TApp extends XPRVApp<any, infer TInternal, any, any, any, any, any>
         ? TInternal
         : never;
 
-type AppValidationErrorResponse<TApp extends XPRVApp<any, any, any, any, any>> =
-    TApp extends XPRVApp<any, any, any, any, infer TValidation>
+type AppValidationErrorResponse<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
+    TApp extends XPRVApp<any, any, any, any, infer TValidation, any, any>
         ? TValidation
         : never;
 
+type AppBodyParseErrorResponse<TApp extends XPRVApp<any, any, any, any, any, any, any>> =
+    TApp extends XPRVApp<any, any, any, any, any, any, infer TBodyParseError>
+        ? TBodyParseError
+        : never;
+
 type IsUnknown<T> = unknown extends T ? ([T] extends [unknown] ? true : false) : false;
 
 type HasKnownInput<TInput> =
@@ -98,22 +148,215 @@ type HasKnownInput<TInput> =
                             : false
             : false;
 
+type HasKnownBody<TInput> =
+    [TInput] extends [never]
+        ? false
+        : TInput extends JsonRequest<any, any, any, infer B>
+            ? IsUnknown<B> extends false
+                ? true
+                : false
+            : false;
+
+/**
+ * JSON response as received by the client
+ * `kind` tells it apart from the other response kinds
+ */
+export interface ClientJsonResponse<TStatus extends number, TBody, THeaders>
+    extends JsonResponse<TStatus, TBody, THeaders> {
+    readonly kind: "json";
+}
+
+/**
+ * Event stream response as received by the client
+ * The body yields the parsed events until the server closes the stream
+ */
+export interface ClientEventStreamResponse<TEvent> {
+    readonly kind: "event-stream";
+    readonly status: 200;
+    readonly body: AsyncIterableIterator<TEvent>;
+    readonly headers: Record<string, string>;
+}
+
+export interface ClientTextResponse<TStatus extends number, TBody extends string> {
+    readonly kind: "text";
+    readonly status: TStatus;
+    readonly body: TBody;
+    readonly headers: Record<string, string>;
+}
+
+export interface ClientBinaryResponse<TStatus extends number> {
+    readonly kind: "binary";
+    readonly status: TStatus;
+    readonly body: Blob;
+    readonly headers: Record<string, string>;
+}
+
+/**
+ * File download as received by the client
+ * `filename` is read from the Content-Disposition header
+ */
+export interface ClientFileResponse<TStatus extends number> {
+    readonly kind: "file";
+    readonly status: TStatus;
+    readonly body: Blob;
+    readonly headers: Record<string, string>;
+    readonly filename: string | undefined;
+}
+
+/**
+ * Redirect as received by the client, redirects are not followed
+ */
+export interface ClientRedirectResponse<TStatus extends number> {
+    readonly kind: "redirect";
+    readonly status: TStatus;
+    readonly body: undefined;
+    readonly headers: Record<string, string>;
+    readonly location: string;
+}
+
+/**
+ * HEAD response as received by the client, the body is never read
+ */
+export interface ClientHeadResponse<TStatus extends number, THeaders> {
+    readonly kind: "head";
+    readonly status: TStatus;
+    readonly body: undefined;
+    readonly headers: THeaders;
+}
+
+/**
+ * OPTIONS response of a route without an options handler, `allow` lists its methods
+ */
+export type ClientAllowResponse = ClientJsonResponse<204, undefined, { allow: string }>;
+
+/**
+ * Request that got no response: it timed out, the network failed or the caller aborted it
+ * Returned instead of a rejected promise, `status` is 0 as for fetch network errors
+ */
+export interface ClientErrorResponse {
+    readonly kind: "error";
+    readonly status: 0;
+    readonly body: undefined;
+    readonly headers: Record<string, string>;
+    readonly reason: ClientFailureReason;
+    readonly error: ClientRequestError;
+}
+
+/**
+ * Any response the client hands back, told apart by `kind`
+ */
+export type AnyClientResponse =
+    | ClientJsonResponse<number, unknown, Record<string, string>>
+    | ClientEventStreamResponse<unknown>
+    | ClientTextResponse<number, string>
+    | ClientBinaryResponse<number>
+    | ClientFileResponse<number>
+    | ClientRedirectResponse<number>
+    | ClientHeadResponse<number, Record<string, string>>
+    | ClientErrorResponse
+    | ContractViolation;
+
+/**
+ * Bodies of the JSON responses among `TResponse`
+ */
+type JsonBodyOf<TResponse> =
+    TResponse extends { readonly kind: string }
+        ? never
+        : TResponse extends JsonResponse<any, infer TBody, any>
+            ? TBody
+            : never;
+
+/**
+ * Map a server response type to what the client receives
+ * Event streams may also end with `TErrorEvent`
+ */
+type ClientResponse<TResponse, TErrorEvent = never> =
+    TResponse extends EventStreamResponse<infer TEvent>
+        ? ClientEventStreamResponse<TEvent | TErrorEvent>
+        : TResponse extends TextResponse<infer TStatus, infer TBody, any>
+            ? ClientTextResponse<TStatus, TBody>
+            : TResponse extends BinaryResponse<infer TStatus, any>
+                ? ClientBinaryResponse<TStatus>
+                : TResponse extends FileResponse<infer TStatus, any>
+                    ? ClientFileResponse<TStatus>
+                    : TResponse extends RedirectResponse<infer TStatus, any>
+                        ? ClientRedirectResponse<TStatus>
+                        : TResponse extends JsonResponse<infer TStatus, infer TBody, infer THeaders>
+                            ? ClientJsonResponse<TStatus, TBody, THeaders>
+                            : TResponse;
+
 type ResponseForPathWithErrors<
-    TApp extends XPRVApp<any, any, any, any, any>,
+    TApp extends XPRVApp<any, any, any, any, any, any, any>,
+    TContract extends ContractMode | undefined,
     TOrganized,
     TMethod extends HttpMethod,
     TPath extends string
 > =
     HandlerForPath<TOrganized, TMethod, TPath> extends infer THandler
         ? THandler extends JsonRouteHandler<any, any, any>
-            ? ExtractResponse<THandler>
+            ? ClientResponse<
+                ExtractResponse<THandler>
                 | AppInternalServerErrorResponse<TApp>
                 | (HasKnownInput<ExtractInput<THandler>> extends true
                     ? AppValidationErrorResponse<TApp>
                     : never)
+                | (HasKnownBody<ExtractInput<THandler>> extends true
+                    ? AppBodyParseErrorResponse<TApp>
+                    : never),
+                // a failing producer sends the internal error body, or the body of an HttpError it threw
+                ServerSentErrorEvent<JsonBodyOf<ExtractResponse<THandler> | AppInternalServerErrorResponse<TApp>>>
+            > | ClientErrorResponse | ContractResult<TContract>
             : never
         : never;
 
+/**
+ * Paths a method may be sent to: HEAD is also answered by GET handlers, OPTIONS by every route
+ */
+type ClientPathsForMethod<
+    TOrganized,
+    TMethod extends HttpMethod
+> = {
+    [M in HttpMethod]: M extends 'head'
+        ? PathsForMethod<TOrganized, 'head' | 'get'>
+        : M extends 'options'
+            ? PathsForMethod<TOrganized, HttpMethod>
+            : PathsForMethod<TOrganized, M>
+}[TMethod];
+
+/**
+ * Method of the handler answering a request, GET handlers answer HEAD requests of routes without a head handler
+ */
+type HandlerMethod<
+    TOrganized,
+    TMethod extends HttpMethod,
+    TPath extends string
+> = TMethod extends 'head'
+    ? [HandlerForPath<TOrganized, 'head', TPath>] extends [never] ? 'get' : 'head'
+    : TMethod;
+
+// HEAD responses have no body to check against the contract
+type HeadResponse<TResponse> = TResponse extends ContractViolation
+    ? never
+    : TResponse extends ClientErrorResponse
+        ? TResponse
+        : TResponse extends { status: infer TStatus extends number; headers: infer THeaders }
+            ? ClientHeadResponse<TStatus, THeaders>
+            : never;
+
+type ResponseForMethod<
+    TApp extends XPRVApp<any, any, any, any, any, any, any>,
+    TContract extends ContractMode | undefined,
+    TOrganized,
+    TMethod extends HttpMethod,
+    TPath extends string
+> = TMethod extends 'head'
+    ? HeadResponse<ResponseForPathWithErrors<TApp, TContract, TOrganized, HandlerMethod<TOrganized, 'head', TPath>, TPath>>
+    : TMethod extends 'options'
+        ? [HandlerForPath<TOrganized, 'options', TPath>] extends [never]
+            ? ClientAllowResponse | ClientErrorResponse
+            : ResponseForPathWithErrors<TApp, TContract, TOrganized, 'options', TPath>
+        : ResponseForPathWithErrors<TApp, TContract, TOrganized, TMethod, TPath>;
+
 /**
  * Extract specific property from input
  * Returns the property type if it exists and is not unknown, otherwise never
@@ -125,16 +368,95 @@ type ExtractInputProperty<TInput, TKey extends keyof JsonRequest<any, any, any,
             : TInput[TKey]
         : never;
 
+/**
+ * Type of a single path param, taken from the handler's params when it declares it
+ */
+type PathParamValue<TParams, TName extends string> =
+    [TParams] extends [never]
+        ? string | number
+        : TName extends keyof TParams
+            ? TParams[TName]
+            : string | number;
+
+/**
+ * Params for a path: exactly the names declared in the path
+ */
+type PathParamsOptions<TPath extends string, TInput> =
+    [PathParamNames<TPath>] extends [never]
+        ? { params?: never }
+        : {
+            params: {
+                [K in PathParamNames<TPath>]: PathParamValue<ExtractInputProperty<TInput, 'params'>, K>
+            }
+        };
+
+/**
+ * Files are sent as Blobs (or Files) in a multipart/form-data body
+ */
+type ClientBodyValue<T> =
+    T extends UploadedFile
+        ? Blob
+        : T extends UploadedFile[]
+            ? Blob[]
+            : T;
+
+type ClientBody<TBody> =
+    TBody extends object
+        ? [Extract<TBody[keyof TBody], UploadedFile | UploadedFile[]>] extends [never]
+            ? TBody
+            : { [K in keyof TBody]: ClientBodyValue<TBody[K]> }
+        : TBody;
+
+/**
+ * Fetch options of a request, `signal` is combined with the timeout
+ */
+type RequestControlOptions = Omit<RequestInit, 'method' | 'body' | 'headers'> & {
+    // milliseconds each attempt may take, overrides the client's `timeout`
+    timeout?: number;
+};
+
 /**
  * Build the request options type for a specific route
  * Only includes properties that are defined in the input type
  */
-type RequestOptions<TInput> = 
+type RequestOptions<TInput, TPath extends string> = 
     {
-        [K in 'headers' | 'params' | 'query' | 'body']?: ExtractInputProperty<TInput, K> extends never 
+        [K in 'headers' | 'query' | 'body']?: ExtractInputProperty<TInput, K> extends never 
             ? any 
-            : ExtractInputProperty<TInput, K>
-    } & Omit<RequestInit, 'method' | 'body' | 'headers'>;
+            : K extends 'body'
+                ? ClientBody<ExtractInputProperty<TInput, K>>
+                : ExtractInputProperty<TInput, K>
+    } & PathParamsOptions<TPath, TInput> & RequestControlOptions;
+
+/**
+ * Request options as seen by the untyped internal request method
+ */
+type AnyRequestOptions = {
+    [K in 'headers' | 'params' | 'query' | 'body']?: any
+} & RequestControlOptions;
+
+/**
+ * Request options of a route for a method
+ * Indexed by method so that helpers generic over the method still accept options
+ */
+type RequestOptionsForMethod<
+    TOrganized,
+    TMethod extends HttpMethod,
+    TPath extends string
+> = {
+    [M in HttpMethod]: RequestOptions<InputForPath<TOrganized, HandlerMethod<TOrganized, M, TPath>, TPath>, TPath>
+}[TMethod];
+
+/**
+ * Arguments after the path, options are required when the path has params
+ */
+type RequestArgs<
+    TOrganized,
+    TMethod extends HttpMethod,
+    TPath extends string
+> = [PathParamNames<TPath>] extends [never]
+    ? [options?: RequestOptionsForMethod<TOrganized, TMethod, TPath>]
+    : [options: RequestOptionsForMethod<TOrganized, TMethod, TPath>];
 
 // ============================================================
 // Client configuration and implementation
@@ -148,13 +470,37 @@ export type FetchMethod = (
     init?: RequestInit
 ) => Promise<Response>;
 
+/**
+ * Tracing of client requests, each one gets a client span whose ids are sent as `traceparent`
+ */
+export interface ClientTracingOptions {
+    // receives the client span of each request
+    exporter?: SpanExporter;
+    // traceparent to continue, e.g. `request.traceparent` when calling another service from a handler
+    parent?: () => string | undefined;
+}
+
 /**
  * Client configuration options
  */
-export interface ClientConfig {
+export interface ClientConfig<TContract extends ContractMode | undefined = undefined> {
     baseUrl: string;
     fetchMethod?: FetchMethod;
     defaultHeaders?: HeadersInit;
+    // send a `traceparent` header with every request, off by default
+    // since browsers preflight cross-origin requests carrying it
+    tracing?: boolean | ClientTracingOptions;
+    // the `query` options of the app, so arrays and nested objects are written the way it parses them
+    query?: QueryCodecOptions;
+    // run around every request, see `ClientInterceptor`
+    interceptors?: ClientInterceptor[];
+    // send failed requests again with exponential backoff, off by default
+    retry?: boolean | ClientRetryOptions;
+    // milliseconds each attempt may take, no limit by default
+    timeout?: number;
+    // check JSON responses against the app's output schemas, off by default
+    // its mode is the `TContract` type argument of the client, e.g. `new Client<typeof app, 'strict'>`
+    contract?: TContract extends ContractMode ? ClientContract<TContract> : undefined;
 }
 
 /**
@@ -175,16 +521,31 @@ export interface ClientConfig {
  * //                     JsonResponse<500, { error: "Internal Server Error" }, {}>
  * ```
  */
-export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
+export class Client<
+    TApp extends XPRVApp<any, any, any, any, any, any, any>,
+    TContract extends ContractMode | undefined = undefined
+> {
     private baseUrl: string;
     private fetchMethod: FetchMethod;
     private defaultHeaders: HeadersInit;
+    private tracing: ClientTracingOptions | undefined;
+    private queryCodec: QueryCodec;
+    private interceptors: ClientInterceptor[];
+    private retry: RetryPolicy | undefined;
+    private timeout: number | undefined;
+    private contract: ReturnType<typeof responseContract> | undefined;
     private organizedRoutes: AppOrganizedRoutes<TApp>;
 
-    constructor(config: ClientConfig) {
+    constructor(config: ClientConfig<TContract>) {
         this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
         this.fetchMethod = config.fetchMethod || fetch.bind(globalThis);
         this.defaultHeaders = config.defaultHeaders || {};
+        this.tracing = config.tracing === true ? {} : config.tracing || undefined;
+        this.queryCodec = queryCodec(config.query);
+        this.interceptors = config.interceptors ?? [];
+        this.retry = retryPolicy(config.retry);
+        this.timeout = config.timeout;
+        this.contract = config.contract && responseContract(config.contract as ClientContractOptions);
         this.organizedRoutes = {} as AppOrganizedRoutes<TApp>; // Type-level only, not used at runtime
     }
 
@@ -195,9 +556,9 @@ export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
         TPath extends PathsForMethod<AppOrganizedRoutes<TApp>, 'get'> & string
     >(
         path: TPath,
-        options?: RequestOptions<InputForPath<AppOrganizedRoutes<TApp>, 'get', TPath>>
-    ): Promise<ResponseForPathWithErrors<TApp, AppOrganizedRoutes<TApp>, 'get', TPath>> {
-        return this.request('GET', path, options);
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'get', TPath>
+    ): Promise<ResponseForPathWithErrors<TApp, TContract, AppOrganizedRoutes<TApp>, 'get', TPath>> {
+        return this.send('GET', path, options);
     }
 
     /**
@@ -207,9 +568,9 @@ export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
         TPath extends PathsForMethod<AppOrganizedRoutes<TApp>, 'post'> & string
     >(
         path: TPath,
-        options?: RequestOptions<InputForPath<AppOrganizedRoutes<TApp>, 'post', TPath>>
-    ): Promise<ResponseForPathWithErrors<TApp, AppOrganizedRoutes<TApp>, 'post', TPath>> {
-        return this.request('POST', path, options);
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'post', TPath>
+    ): Promise<ResponseForPathWithErrors<TApp, TContract, AppOrganizedRoutes<TApp>, 'post', TPath>> {
+        return this.send('POST', path, options);
     }
 
     /**
@@ -219,9 +580,9 @@ export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
         TPath extends PathsForMethod<AppOrganizedRoutes<TApp>, 'put'> & string
     >(
         path: TPath,
-        options?: RequestOptions<InputForPath<AppOrganizedRoutes<TApp>, 'put', TPath>>
-    ): Promise<ResponseForPathWithErrors<TApp, AppOrganizedRoutes<TApp>, 'put', TPath>> {
-        return this.request('PUT', path, options);
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'put', TPath>
+    ): Promise<ResponseForPathWithErrors<TApp, TContract, AppOrganizedRoutes<TApp>, 'put', TPath>> {
+        return this.send('PUT', path, options);
     }
 
     /**
@@ -231,9 +592,9 @@ export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
         TPath extends PathsForMethod<AppOrganizedRoutes<TApp>, 'patch'> & string
     >(
         path: TPath,
-        options?: RequestOptions<InputForPath<AppOrganizedRoutes<TApp>, 'patch', TPath>>
-    ): Promise<ResponseForPathWithErrors<TApp, AppOrganizedRoutes<TApp>, 'patch', TPath>> {
-        return this.request('PATCH', path, options);
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'patch', TPath>
+    ): Promise<ResponseForPathWithErrors<TApp, TContract, AppOrganizedRoutes<TApp>, 'patch', TPath>> {
+        return this.send('PATCH', path, options);
     }
 
     /**
@@ -243,73 +604,345 @@ export class Client<TApp extends XPRVApp<any, any, any, any, any>> {
         TPath extends PathsForMethod<AppOrganizedRoutes<TApp>, 'delete'> & string
     >(
         path: TPath,
-        options?: RequestOptions<InputForPath<AppOrganizedRoutes<TApp>, 'delete', TPath>>
-    ): Promise<ResponseForPathWithErrors<TApp, AppOrganizedRoutes<TApp>, 'delete', TPath>> {
-        return this.request('DELETE', path, options);
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'delete', TPath>
+    ): Promise<ResponseForPathWithErrors<TApp, TContract, AppOrganizedRoutes<TApp>, 'delete', TPath>> {
+        return this.send('DELETE', path, options);
+    }
+
+    /**
+     * Perform a HEAD request, answered by the GET handler of routes without a head handler
+     * The response has the statuses and headers of that handler, without a body
+     */
+    async head<
+        TPath extends ClientPathsForMethod<AppOrganizedRoutes<TApp>, 'head'> & string
+    >(
+        path: TPath,
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'head', TPath>
+    ): Promise<ResponseForMethod<TApp, TContract, AppOrganizedRoutes<TApp>, 'head', TPath>> {
+        return this.send('HEAD', path, options);
+    }
+
+    /**
+     * Perform an OPTIONS request
+     * Routes without an options handler answer 204 with the methods they allow in `allow`
+     */
+    async options<
+        TPath extends ClientPathsForMethod<AppOrganizedRoutes<TApp>, 'options'> & string
+    >(
+        path: TPath,
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, 'options', TPath>
+    ): Promise<ResponseForMethod<TApp, TContract, AppOrganizedRoutes<TApp>, 'options', TPath>> {
+        return this.send('OPTIONS', path, options);
+    }
+
+    /**
+     * Perform a request with any method, paths and options are narrowed by the method
+     *
+     * @example
+     * ```typescript
+     * function fetchAll<TMethod extends "get" | "head">(method: TMethod) {
+     *     return client.request(method, "/users");
+     * }
+     * ```
+     */
+    async request<
+        TMethod extends HttpMethod,
+        TPath extends ClientPathsForMethod<AppOrganizedRoutes<TApp>, TMethod> & string
+    >(
+        method: TMethod,
+        path: TPath,
+        ...[options]: RequestArgs<AppOrganizedRoutes<TApp>, TMethod, TPath>
+    ): Promise<ResponseForMethod<TApp, TContract, AppOrganizedRoutes<TApp>, TMethod, TPath>> {
+        return this.send(method.toUpperCase(), path, options);
     }
 
     /**
      * Internal request method
      */
-    private async request(
+    private async send(
         method: string,
         path: string,
-        options?: RequestOptions<any>
+        options?: AnyRequestOptions
     ): Promise<any> {
-        // Build URL with path params
-        let url = `${this.baseUrl}${path}`;
-        
-        // Replace path params (e.g., /users/:id -> /users/123)
-        if (options?.params) {
-            for (const [key, value] of Object.entries(options.params)) {
-                url = url.replace(`:${key}`, String(value));
-            }
-        }
+        // Fill in path params (e.g., /users/:id -> /users/123),
+        // throws before anything is sent when one is missing
+        let url = `${this.baseUrl}${interpolatePath(path, options?.params)}`;
 
-        // Add query string
+        // Add query string, arrays, nested objects and dates are encoded as the app parses them
         if (options?.query) {
-            const queryString = new URLSearchParams(
-                Object.entries(options.query).reduce((acc, [key, value]) => {
-                    acc[key] = String(value);
-                    return acc;
-                }, {} as Record<string, string>)
-            ).toString();
+            const queryString = this.queryCodec.stringify(options.query);
             if (queryString) {
                 url += `?${queryString}`;
             }
         }
 
-        // Build headers
-        const headers = new Headers(this.defaultHeaders);
-        
-        // Merge in any headers from options
-        if (options?.headers) {
-            const optionHeaders = new Headers(options.headers as HeadersInit);
-            optionHeaders.forEach((value, key) => headers.set(key, value));
+        // Extract standard fetch options
+        const { headers: optionHeaders, body, params, query, timeout = this.timeout, ...fetchOptions } = options || {};
+
+        // each attempt starts over, so headers set by interceptors on a failed try do not leak into the retry
+        const createRequest = (attempt: number): ClientRequest => {
+            const headers = new Headers(this.defaultHeaders);
+
+            // Merge in any headers from options
+            if (optionHeaders) {
+                new Headers(optionHeaders as HeadersInit).forEach((value, key) => headers.set(key, value));
+            }
+
+            return { method, route: path, url, headers, body, attempt };
+        };
+
+        try {
+            const response = await runInterceptors(
+                this.interceptors,
+                createRequest,
+                (request) => this.sendWithRetries(request, fetchOptions, timeout)
+            );
+            return this.contract ? this.contract(method, path, response) : response;
+        } catch (error) {
+            if (error instanceof ClientRequestError) {
+                return {
+                    kind: 'error',
+                    status: 0,
+                    body: undefined,
+                    headers: {},
+                    reason: error.reason,
+                    error,
+                } satisfies ClientErrorResponse;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Send a request until it succeeds or the retry policy gives up
+     */
+    private async sendWithRetries(
+        request: ClientRequest,
+        fetchOptions: RequestInit,
+        timeout: number | undefined
+    ): Promise<AnyClientResponse> {
+        for (let retried = 0; ; retried++) {
+            let outcome: AnyClientResponse | ClientRequestError;
+            try {
+                outcome = await this.transport(request, fetchOptions, timeout);
+            } catch (error) {
+                if (error instanceof DispatchError) {
+                    throw error.error;
+                }
+                if (!(error instanceof ClientRequestError)) {
+                    throw error;
+                }
+                outcome = error;
+            }
+            const delay = this.retry && retryDelay(this.retry, request.method, retried, outcome);
+            if (delay === undefined) {
+                if (outcome instanceof ClientRequestError) {
+                    throw outcome;
+                }
+                return outcome;
+            }
+            await waitToRetry(delay, fetchOptions.signal, request.method, request.url);
         }
+    }
+
+    /**
+     * Send a request once interceptors are done with it, and read its response
+     */
+    private async transport(
+        request: ClientRequest,
+        fetchOptions: RequestInit,
+        timeout: number | undefined
+    ): Promise<AnyClientResponse> {
+        const { method, url, headers, body } = request;
+
+        // Bodies with files are sent as multipart/form-data,
+        // fetch sets the Content-Type with its boundary
+        const formData = toFormData(body);
 
         // Add Content-Type for JSON bodies
-        if (options?.body !== undefined) {
+        if (body !== undefined && formData === undefined) {
             headers.set('Content-Type', 'application/json');
         }
 
-        // Extract standard fetch options
-        const { headers: _, body, params, query, ...fetchOptions } = options || {};
+        // named after the path template, like the server span it connects to
+        const tracer = this.tracing && new RequestTracer(
+            `${method} ${request.route}`,
+            'client',
+            parseTraceparent(this.tracing.parent?.())
+        );
+        if (tracer) {
+            headers.set('traceparent', tracer.traceparent);
+        }
 
-        const response = await this.fetchMethod(url, {
-            ...fetchOptions,
+        // the timeout covers the response and its body, not the events of a stream
+        const timeoutController = timeout === undefined ? undefined : new AbortController();
+        const timer = timeoutController && setTimeout(() => timeoutController.abort(), timeout);
+        const signal = timeoutController && fetchOptions.signal
+            ? AbortSignal.any([fetchOptions.signal, timeoutController.signal])
+            : timeoutController?.signal ?? fetchOptions.signal;
+        const failed = (error: unknown) => new ClientRequestError(
+            fetchOptions.signal?.aborted ? 'aborted' : timeoutController?.signal.aborted ? 'timeout' : 'network',
             method,
-            headers,
-            body: body !== undefined ? JSON.stringify(body) : null,
-        });
+            url,
+            error
+        );
+
+        try {
+            let response: Response;
+            try {
+                response = await this.fetchMethod(url, {
+                    // redirects are returned to the caller with their location
+                    redirect: 'manual',
+                    ...fetchOptions,
+                    method,
+                    headers,
+                    body: formData ?? (body !== undefined ? JSON.stringify(body) : null),
+                    signal: signal ?? null,
+                });
+            } catch (error) {
+                if (tracer) {
+                    tracer.root.error = error;
+                    this.exportClientSpan(tracer, 'error');
+                }
+                throw error instanceof DispatchError ? error : failed(error);
+            }
+
+            if (tracer) {
+                Object.assign(tracer.root.attributes, {
+                    'http.request.method': method,
+                    'url.full': url,
+                    'http.response.status_code': response.status,
+                });
+                this.exportClientSpan(tracer, response.status >= 500 ? 'error' : 'ok');
+            }
+
+            if (method === 'HEAD') {
+                // HEAD responses carry the headers of a body that is never sent
+                return {
+                    kind: 'head',
+                    status: response.status,
+                    body: undefined,
+                    headers: Object.fromEntries(response.headers.entries()),
+                } as ClientHeadResponse<number, Record<string, string>>;
+            }
+
+            const parsed = await this.parseResponse(response);
+            // JSON bodies cut off by an abort read as undefined
+            if (signal?.aborted) {
+                throw failed(signal.reason);
+            }
+            return parsed;
+        } catch (error) {
+            // reading the body failed
+            throw error instanceof ClientRequestError || error instanceof DispatchError ? error : failed(error);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private exportClientSpan(tracer: RequestTracer, status: 'ok' | 'error') {
+        const spans = tracer.end(status);
+        if (this.tracing?.exporter && tracer.sampled) {
+            exportSpans(this.tracing.exporter, spans);
+        }
+    }
+
+    /**
+     * Read the body according to the kind of response the server sent
+     */
+    private async parseResponse(response: Response): Promise<AnyClientResponse> {
+        const headers = Object.fromEntries(response.headers.entries());
+        const contentType = response.headers.get('Content-Type') ?? '';
+        const location = response.headers.get('Location');
+
+        if (response.type === 'opaqueredirect' || (location !== null && response.status >= 300 && response.status < 400)) {
+            return {
+                kind: 'redirect',
+                status: response.status,
+                body: undefined,
+                headers,
+                // browsers hide the Location header of manual redirects
+                location: location ?? response.url,
+            } as ClientRedirectResponse<number>;
+        }
+
+        if (response.body && contentType.startsWith('text/event-stream')) {
+            return {
+                kind: 'event-stream',
+                status: response.status,
+                body: parseEventStream(response.body),
+                headers,
+            } as ClientEventStreamResponse<unknown>;
+        }
+
+        const disposition = response.headers.get('Content-Disposition');
+        if (disposition?.startsWith('attachment')) {
+            return {
+                kind: 'file',
+                status: response.status,
+                body: await response.blob(),
+                headers,
+                filename: parseFilename(disposition),
+            } as ClientFileResponse<number>;
+        }
+
+        if (contentType !== '' && !/[/+]json\b/.test(contentType)) {
+            return contentType.startsWith('text/')
+                ? {
+                    kind: 'text',
+                    status: response.status,
+                    body: await response.text(),
+                    headers,
+                } as ClientTextResponse<number, string>
+                : {
+                    kind: 'binary',
+                    status: response.status,
+                    body: await response.blob(),
+                    headers,
+                } as ClientBinaryResponse<number>;
+        }
 
         // Parse response
         const responseBody = await response.json().catch(() => undefined);
 
         return {
+            kind: 'json',
             status: response.status,
             body: responseBody,
-            headers: Object.fromEntries(response.headers.entries()),
-        } as JsonResponse<any, any, any>;
+            headers,
+        } as ClientJsonResponse<number, unknown, Record<string, string>>;
+    }
+}
+
+function parseFilename(disposition: string): string | undefined {
+    const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+    if (encoded !== undefined) {
+        return decodeURIComponent(encoded);
+    }
+    return /filename="?([^";]+)"?/i.exec(disposition)?.[1];
+}
+
+function isBlobValue(value: unknown) {
+    return value instanceof Blob || (Array.isArray(value) && value.some((item) => item instanceof Blob));
+}
+
+/**
+ * Build a FormData body when a field holds a Blob, undefined otherwise
+ * Other fields are sent as strings, arrays as repeated fields
+ */
+function toFormData(body: unknown): FormData | undefined {
+    if (typeof body !== 'object' || body === null || !Object.values(body).some(isBlobValue)) {
+        return undefined;
+    }
+
+    const formData = new FormData();
+    for (const [field, value] of Object.entries(body)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item === undefined) {
+                continue;
+            }
+            formData.append(field, item instanceof Blob ? item : String(item));
+        }
     }
+    return formData;
 }
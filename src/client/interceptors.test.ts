@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import xprv from '../index';
+import { Client } from './index';
+import { ClientInterceptor } from './interceptors';
+import { createTestClient } from './test-client';
+
+describe('client interceptors', () => {
+    let token = 'expired';
+    const bearer = xprv.auth.bearer((value) => value === token ? { id: 'ada' } : undefined);
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: '/',
+            children: [
+                xprv.node({
+                    path: '/me',
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider((request) => ({ trace: request.get('x-trace') ?? null }))
+                            .auth(bearer)
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { id: context.principal.id, trace: context.trace },
+                            })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it('run from the first to the last on the way out, and back on the way in', async () => {
+        const calls: string[] = [];
+        const named = (name: string): ClientInterceptor => ({
+            onRequest: () => { calls.push(`${name} request`); },
+            onResponse: () => { calls.push(`${name} response`); },
+        });
+        await createTestClient(app, { interceptors: [named('outer'), named('inner')] }).get('/me');
+        assert.deepEqual(calls, ['outer request', 'inner request', 'inner response', 'outer response']);
+    });
+
+    it('change the request before it is sent', async () => {
+        token = 'valid';
+        const client = createTestClient(app, {
+            interceptors: [{
+                onRequest: (request) => {
+                    request.headers.set('authorization', `Bearer ${token}`);
+                    return { ...request, headers: new Headers([...request.headers, ['x-trace', 'abc']]) };
+                },
+            }],
+        });
+        const response = await client.get('/me');
+        assert.equal(response.status, 200);
+        if (response.status === 200) {
+            assert.deepEqual(response.body, { id: 'ada', trace: 'abc' });
+        }
+    });
+
+    it('send the request again through every interceptor once a token is refreshed', async () => {
+        token = 'valid';
+        let current = 'expired';
+        const attempts: number[] = [];
+        const client = createTestClient(app, {
+            interceptors: [
+                {
+                    onResponse: async (response, { request, retry }) => {
+                        if (response.status !== 401 || request.attempt > 0) {
+                            return response;
+                        }
+                        current = token;
+                        return retry();
+                    },
+                },
+                {
+                    onRequest: (request) => {
+                        attempts.push(request.attempt);
+                        request.headers.set('authorization', `Bearer ${current}`);
+                    },
+                },
+            ],
+        });
+        const response = await client.get('/me');
+        assert.equal(response.status, 200);
+        assert.deepEqual(attempts, [0, 1]);
+    });
+
+    it('recover from a failed request with another response', async () => {
+        const client = new Client<typeof app>({
+            baseUrl: 'http://xprv.test',
+            fetchMethod: async () => {
+                throw new TypeError('fetch failed');
+            },
+            interceptors: [{
+                onError: (error) => ({
+                    kind: 'json',
+                    status: 200,
+                    body: { id: 'cached', trace: String((error as Error).message) },
+                    headers: {},
+                }),
+            }],
+        });
+        const response = await client.get('/me');
+        assert.equal(response.status, 200);
+        if (response.status === 200) {
+            assert.deepEqual(response.body, { id: 'cached', trace: 'GET http://xprv.test/me failed' });
+        }
+    });
+});
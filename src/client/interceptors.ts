@@ -0,0 +1,75 @@
+import type { AnyClientResponse } from './index';
+
+/**
+ * Request about to be sent, as seen by interceptors
+ * `url`, `headers` and `body` may be changed in place or in a returned copy
+ */
+export interface ClientRequest {
+    // upper case, e.g. "GET"
+    readonly method: string;
+    // route template, e.g. "/users/:id"
+    readonly route: string;
+    // with the params and query filled in
+    url: string;
+    headers: Headers;
+    // JSON value or object with files, undefined when there is none
+    body: unknown;
+    // 0 on the first try, one more on each retry
+    readonly attempt: number;
+}
+
+export interface ClientInterceptorContext {
+    // the request as this interceptor passed it on
+    request: ClientRequest;
+    // send the request again through every interceptor, e.g. once an expired token is refreshed
+    retry(): Promise<AnyClientResponse>;
+}
+
+type Intercepted<T> = T | void | Promise<T | void>;
+
+/**
+ * Hooks around every request of a client
+ * The first interceptor is the outermost: it sees the request first and the response last
+ */
+export interface ClientInterceptor {
+    onRequest?(request: ClientRequest): Intercepted<ClientRequest>;
+    // may return another response, e.g. the one of `retry()`
+    onResponse?(response: AnyClientResponse, context: ClientInterceptorContext): Intercepted<AnyClientResponse>;
+    // errors of the request or of inner interceptors
+    // return a response to recover, or throw to replace the error
+    onError?(error: unknown, context: ClientInterceptorContext): Intercepted<AnyClientResponse>;
+}
+
+/**
+ * Run a request through the interceptors, `createRequest` builds a fresh request for each attempt
+ */
+export function runInterceptors(
+    interceptors: ClientInterceptor[],
+    createRequest: (attempt: number) => ClientRequest,
+    send: (request: ClientRequest) => Promise<AnyClientResponse>
+): Promise<AnyClientResponse> {
+    const attempt = (count: number): Promise<AnyClientResponse> => {
+        const retry = () => attempt(count + 1);
+        const run = async (index: number, request: ClientRequest): Promise<AnyClientResponse> => {
+            const interceptor = interceptors[index];
+            if (interceptor === undefined) {
+                return send(request);
+            }
+            const intercepted = (await interceptor.onRequest?.(request)) ?? request;
+            const context = { request: intercepted, retry };
+            let response: AnyClientResponse;
+            try {
+                response = await run(index + 1, intercepted);
+            } catch (error) {
+                const recovered = await interceptor.onError?.(error, context);
+                if (recovered === undefined) {
+                    throw error;
+                }
+                return recovered;
+            }
+            return (await interceptor.onResponse?.(response, context)) ?? response;
+        };
+        return run(0, createRequest(count));
+    };
+    return attempt(0);
+}
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import xprv from '../index';
+import type { PathParamNames } from '../core/types/path';
+import { createTestClient } from './test-client';
+import { interpolatePath, MissingPathParamsError } from './path-params';
+
+// true when two types are the same, checked at compile time
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+describe('path params', () => {
+    it('reads param names as identifiers, like the server', () => {
+        const names: [
+            Equals<PathParamNames<'/files/:name.:ext'>, 'name' | 'ext'>,
+            Equals<PathParamNames<'/users/:user_id/range/:from-end'>, 'user_id' | 'from'>,
+        ] = [true, true];
+        assert.deepEqual(names, [true, true]);
+        assert.equal(interpolatePath('/files/:name.:ext', { name: 'report', ext: 'pdf' }), '/files/report.pdf');
+        assert.equal(interpolatePath('/users/:user_id/range/:from-end', { user_id: 1, from: 2 }), '/users/1/range/2-end');
+    });
+
+    it('encodes values and fills in every occurrence', () => {
+        assert.equal(interpolatePath('/a/:id/b/:id', { id: 'x/y' }), '/a/x%2Fy/b/x%2Fy');
+    });
+
+    it('throws before sending when a param is missing', () => {
+        assert.throws(
+            () => interpolatePath('/users/:id/posts/:postId', { id: 1 }),
+            (error) => error instanceof MissingPathParamsError && error.missing.join() === 'postId'
+        );
+    });
+
+    it('fills in the params the server matches', async () => {
+        const app = xprv.app({
+            rootNode: xprv.node({
+                path: '/files/:name.:ext',
+                handlers: (scope) => ({
+                    get: scope.handler.handle(async ({ params }) => xprv.json({
+                        status: 200,
+                        body: { name: params.name, ext: params.ext },
+                    })),
+                }),
+            }),
+        });
+        const response = await createTestClient(app).get('/files/:name.:ext', { params: { name: 'a b', ext: 'tar' } });
+        assert.equal(response.status, 200);
+        assert.deepEqual(response.body, { name: 'a b', ext: 'tar' });
+    });
+});
@@ -0,0 +1,36 @@
+import { pathParamPattern } from '../core/path-params';
+
+/**
+ * Thrown before a request is sent when params of its path are missing
+ */
+export class MissingPathParamsError extends Error {
+    readonly path: string;
+    readonly missing: string[];
+
+    constructor(path: string, missing: string[]) {
+        super(`Missing path param${missing.length > 1 ? 's' : ''} ${missing.map((name) => `"${name}"`).join(', ')} for ${path}`);
+        this.name = 'MissingPathParamsError';
+        this.path = path;
+        this.missing = missing;
+    }
+}
+
+/**
+ * Fill in the params of a path template, each value URL-encoded
+ * A param may appear more than once, every occurrence is replaced
+ */
+export function interpolatePath(path: string, params: Record<string, unknown> = {}): string {
+    const missing = new Set<string>();
+    const interpolated = path.replace(pathParamPattern, (token, name: string) => {
+        const value = Object.prototype.hasOwnProperty.call(params, name) ? params[name] : undefined;
+        if (value === undefined || value === null) {
+            missing.add(name);
+            return token;
+        }
+        return encodeURIComponent(String(value));
+    });
+    if (missing.size > 0) {
+        throw new MissingPathParamsError(path, [...missing]);
+    }
+    return interpolated;
+}
@@ -0,0 +1,39 @@
+// why a request got no response
+export type ClientFailureReason = 'timeout' | 'network' | 'aborted';
+
+/**
+ * Raised when a request gets no response, interceptors see it in `onError`
+ * Unless one recovers, the client resolves with a `ClientErrorResponse` carrying it
+ */
+export class ClientRequestError extends Error {
+    readonly reason: ClientFailureReason;
+    readonly method: string;
+    readonly url: string;
+    // what the fetch method threw, undefined for timeouts and aborts while waiting to retry
+    readonly cause: unknown;
+
+    constructor(reason: ClientFailureReason, method: string, url: string, cause?: unknown) {
+        super(reason === 'timeout'
+            ? `${method} ${url} timed out`
+            : reason === 'aborted' ? `${method} ${url} was aborted` : `${method} ${url} failed`);
+        this.name = 'ClientRequestError';
+        this.reason = reason;
+        this.method = method;
+        this.url = url;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Thrown by the fetch method of the test client when the app itself fails,
+ * the client rethrows `error` instead of reporting a network failure
+ */
+export class DispatchError extends Error {
+    readonly error: unknown;
+
+    constructor(error: unknown) {
+        super('The app failed to handle the request');
+        this.name = 'DispatchError';
+        this.error = error;
+    }
+}
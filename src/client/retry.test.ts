@@ -0,0 +1,191 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import xprv from '../index';
+import { Client, ClientConfig, FetchMethod } from './index';
+import { ClientRequestError } from './request-error';
+import { parseRetryAfter, retryDelay, retryPolicy, RetryPolicy } from './retry';
+
+const app = xprv.app({
+    rootNode: xprv.node({
+        path: '/',
+        children: [
+            xprv.node({
+                path: '/items',
+                handlers: {
+                    get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    post: xprv.handler.handle(async () => xprv.json({ status: 201, body: { ok: true } })),
+                },
+            }),
+        ],
+    }),
+});
+
+// answers with the given outcomes in turn, recording the method of each call
+function stubFetch(outcomes: (number | Error)[]) {
+    const calls: string[] = [];
+    const fetchMethod: FetchMethod = async (input, init) => {
+        calls.push(init?.method ?? 'GET');
+        const outcome = outcomes[Math.min(calls.length, outcomes.length) - 1] ?? 200;
+        if (outcome instanceof Error) {
+            throw outcome;
+        }
+        return Response.json({ ok: outcome < 400 }, { status: outcome });
+    };
+    return { calls, fetchMethod };
+}
+
+// never answers, rejects once the request is aborted
+const hangingFetch: FetchMethod = (input, init) => new Promise((resolve, reject) => {
+    if (init?.signal?.aborted) {
+        reject(init.signal.reason);
+    }
+    init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+});
+
+function client(fetchMethod: FetchMethod, options: Partial<ClientConfig> = {}) {
+    return new Client<typeof app>({
+        baseUrl: 'http://xprv.test',
+        fetchMethod,
+        retry: { baseDelay: 1, jitter: false },
+        ...options,
+    });
+}
+
+describe('parseRetryAfter', () => {
+    it('reads seconds and HTTP dates', () => {
+        assert.equal(parseRetryAfter('3'), 3_000);
+        assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:00:05 GMT', 1_000), 4_000);
+        // dates in the past mean right away
+        assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:00:00 GMT', 1_000), 0);
+    });
+
+    it('ignores missing and malformed values', () => {
+        assert.equal(parseRetryAfter(undefined), undefined);
+        assert.equal(parseRetryAfter(' '), undefined);
+        assert.equal(parseRetryAfter('soon'), undefined);
+    });
+});
+
+describe('retryDelay', () => {
+    const policy = retryPolicy({ baseDelay: 100, maxDelay: 1_000, jitter: false }) as RetryPolicy;
+    const status = (code: number, headers: Record<string, string> = {}) => ({ status: code, headers });
+
+    it('backs off exponentially up to the longest delay', () => {
+        assert.equal(retryDelay(policy, 'GET', 0, status(503)), 100);
+        assert.equal(retryDelay(policy, 'GET', 1, status(503)), 200);
+        assert.equal(retryDelay({ ...policy, retries: 10 }, 'GET', 5, status(503)), 1_000);
+        assert.equal(retryDelay(policy, 'GET', 2, status(503)), undefined);
+    });
+
+    it('leaves non-idempotent methods and unlisted statuses alone', () => {
+        assert.equal(retryDelay(policy, 'POST', 0, status(503)), undefined);
+        assert.equal(retryDelay(policy, 'GET', 0, status(500)), undefined);
+        assert.equal(retryDelay(policy, 'GET', 0, status(200)), undefined);
+    });
+
+    it('waits as long as Retry-After asks, unless it is longer than the longest delay', () => {
+        assert.equal(retryDelay(policy, 'GET', 0, status(429, { 'retry-after': '1' })), 1_000);
+        assert.equal(retryDelay(policy, 'GET', 0, status(429, { 'retry-after': '2' })), undefined);
+        const ignoring = { ...policy, statuses: { 429: { retryAfter: false } } };
+        assert.equal(retryDelay(ignoring, 'GET', 0, status(429, { 'retry-after': '2' })), 100);
+    });
+
+    it('takes the retries of a status rule over the policy', () => {
+        const once = { ...policy, statuses: { 503: { retries: 1 } } };
+        assert.equal(retryDelay(once, 'GET', 0, status(503)), 100);
+        assert.equal(retryDelay(once, 'GET', 1, status(503)), undefined);
+    });
+
+    it('retries network failures but never aborted requests', () => {
+        assert.equal(retryDelay(policy, 'GET', 0, new ClientRequestError('network', 'GET', '/')), 100);
+        assert.equal(retryDelay(policy, 'GET', 0, new ClientRequestError('timeout', 'GET', '/')), 100);
+        assert.equal(retryDelay(policy, 'GET', 0, new ClientRequestError('aborted', 'GET', '/')), undefined);
+        assert.equal(retryDelay({ ...policy, networkErrors: false }, 'GET', 0, new ClientRequestError('network', 'GET', '/')), undefined);
+    });
+
+    it('stays within the backoff delay with jitter', () => {
+        for (let i = 0; i < 20; i++) {
+            const delay = retryDelay({ ...policy, jitter: true }, 'GET', 1, status(503)) ?? -1;
+            assert.ok(delay >= 0 && delay <= 200, String(delay));
+        }
+    });
+});
+
+describe('client retries', () => {
+    it('send an idempotent request again until it succeeds', async () => {
+        const { calls, fetchMethod } = stubFetch([503, 502, 200]);
+        const response = await client(fetchMethod).get('/items');
+        assert.equal(response.status, 200);
+        assert.equal(calls.length, 3);
+    });
+
+    it('give up after the last retry with the last response', async () => {
+        const { calls, fetchMethod } = stubFetch([503]);
+        const response = await client(fetchMethod).get('/items');
+        assert.equal(response.status, 503);
+        assert.equal(calls.length, 3);
+    });
+
+    it('do not send a POST twice', async () => {
+        const { calls, fetchMethod } = stubFetch([503, 201]);
+        const response = await client(fetchMethod).post('/items');
+        assert.equal(response.status, 503);
+        assert.equal(calls.length, 1);
+    });
+
+    it('report a network failure once the retries are spent', async () => {
+        const { calls, fetchMethod } = stubFetch([new TypeError('fetch failed')]);
+        const response = await client(fetchMethod).get('/items');
+        assert.equal(response.kind, 'error');
+        if (response.kind === 'error') {
+            assert.equal(response.reason, 'network');
+            assert.equal((response.error.cause as Error).message, 'fetch failed');
+        }
+        assert.equal(calls.length, 3);
+    });
+
+    it('are turned off with retry: false', async () => {
+        const { calls, fetchMethod } = stubFetch([503, 200]);
+        const response = await client(fetchMethod, { retry: false }).get('/items');
+        assert.equal(response.status, 503);
+        assert.equal(calls.length, 1);
+    });
+});
+
+describe('client timeouts', () => {
+    it('abort an attempt taking longer than the timeout', async () => {
+        const response = await client(hangingFetch, { retry: false, timeout: 10 }).get('/items');
+        assert.equal(response.kind, 'error');
+        if (response.kind === 'error') {
+            assert.equal(response.reason, 'timeout');
+        }
+    });
+
+    it('apply per request over the client timeout', async () => {
+        const { fetchMethod } = stubFetch([200]);
+        const slow: FetchMethod = async (input, init) => {
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            return fetchMethod(input, init);
+        };
+        const response = await client(slow, { retry: false, timeout: 10 }).get('/items', { timeout: 1_000 });
+        assert.equal(response.status, 200);
+    });
+
+    it('report a request aborted by the caller without retrying it', async () => {
+        let calls = 0;
+        const counted: FetchMethod = (input, init) => {
+            calls++;
+            return hangingFetch(input, init);
+        };
+        const controller = new AbortController();
+        const pending = client(counted, { timeout: 1_000 }).get('/items', { signal: controller.signal });
+        controller.abort();
+
+        const response = await pending;
+        assert.equal(response.kind, 'error');
+        if (response.kind === 'error') {
+            assert.equal(response.reason, 'aborted');
+        }
+        assert.equal(calls, 1);
+    });
+});
@@ -0,0 +1,132 @@
+import type { HttpMethod } from '../core/types/http';
+import { ClientRequestError } from './request-error';
+
+export interface RetryStatusRule {
+    // defaults to the `retries` of the policy
+    retries?: number;
+    // wait as long as a `Retry-After` header asks instead of backing off, defaults to true
+    retryAfter?: boolean;
+}
+
+/**
+ * When and how often the client sends a request again
+ */
+export interface ClientRetryOptions {
+    // retries after the first attempt, defaults to 2
+    retries?: number;
+    // defaults to the idempotent methods: get, head, options, put and delete
+    methods?: HttpMethod[];
+    // statuses to retry, defaults to 408, 429, 502, 503 and 504
+    statuses?: Record<number, boolean | RetryStatusRule>;
+    // retry requests that got no response, timeouts included, defaults to true
+    networkErrors?: boolean;
+    // delay before the first retry in milliseconds, doubled on each retry, defaults to 300
+    baseDelay?: number;
+    // longest delay in milliseconds, a longer `Retry-After` is not waited for, defaults to 30000
+    maxDelay?: number;
+    // wait a random time up to the delay, so clients do not retry in lockstep, defaults to true
+    jitter?: boolean;
+}
+
+export type RetryPolicy = Required<ClientRetryOptions>;
+
+const idempotentMethods: HttpMethod[] = ['get', 'head', 'options', 'put', 'delete'];
+
+const retriedStatuses: Record<number, boolean | RetryStatusRule> = {
+    408: true,
+    429: true,
+    502: true,
+    503: true,
+    504: true,
+};
+
+export function retryPolicy(options: boolean | ClientRetryOptions | undefined): RetryPolicy | undefined {
+    if (!options) {
+        return undefined;
+    }
+    const { retries, methods, statuses, networkErrors, baseDelay, maxDelay, jitter } = options === true ? {} : options;
+    return {
+        retries: retries ?? 2,
+        methods: methods ?? idempotentMethods,
+        statuses: statuses ?? retriedStatuses,
+        networkErrors: networkErrors ?? true,
+        baseDelay: baseDelay ?? 300,
+        maxDelay: maxDelay ?? 30_000,
+        jitter: jitter ?? true,
+    };
+}
+
+/**
+ * Milliseconds to wait as asked by a `Retry-After` header, in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+        return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Milliseconds to wait before the next attempt, undefined when the outcome is final
+ * `retried` counts the retries already made
+ */
+export function retryDelay(
+    policy: RetryPolicy,
+    method: string,
+    retried: number,
+    outcome: { status: number; headers: Record<string, string> } | ClientRequestError
+): number | undefined {
+    if (!policy.methods.includes(method.toLowerCase() as HttpMethod)) {
+        return undefined;
+    }
+    const backoff = () => {
+        const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** retried);
+        return policy.jitter ? Math.random() * delay : delay;
+    };
+
+    if (outcome instanceof ClientRequestError) {
+        // the caller gave up on the request
+        return outcome.reason === 'aborted' || !policy.networkErrors || retried >= policy.retries
+            ? undefined
+            : backoff();
+    }
+
+    const rule = policy.statuses[outcome.status];
+    if (!rule) {
+        return undefined;
+    }
+    const { retries = policy.retries, retryAfter = true } = rule === true ? {} : rule;
+    if (retried >= retries) {
+        return undefined;
+    }
+    const asked = retryAfter ? parseRetryAfter(outcome.headers['retry-after']) : undefined;
+    if (asked === undefined) {
+        return backoff();
+    }
+    return asked <= policy.maxDelay ? asked : undefined;
+}
+
+/**
+ * Wait before a retry, rejecting as soon as the caller aborts
+ */
+export function waitToRetry(delay: number, signal: AbortSignal | null | undefined, method: string, url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new ClientRequestError('aborted', method, url));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', aborted);
+            resolve();
+        }, delay);
+        const aborted = () => {
+            clearTimeout(timer);
+            reject(new ClientRequestError('aborted', method, url));
+        };
+        signal?.addEventListener('abort', aborted, { once: true });
+    });
+}
@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import xprv from '../index';
+import { createTestClient } from './test-client';
+
+describe('test client', () => {
+    const rootNode = xprv.node({
+        path: '/',
+        children: [
+            xprv.node({
+                path: '/users/:id',
+                handlers: (scope) => ({
+                    get: scope.handler
+                        .withInput({ query: z.object({ fields: z.array(z.string()).optional() }) })
+                        .handle(async ({ params, query }) => xprv.json({
+                            status: 200,
+                            body: { id: params.id, fields: query.fields ?? [] },
+                        })),
+                }),
+            }),
+            xprv.node({
+                path: '/broken',
+                handlers: {
+                    get: xprv.handler.handle(async () => {
+                        throw new Error('handler failed');
+                    }),
+                },
+            }),
+        ],
+    });
+
+    it('sends typed requests through the app in memory', async () => {
+        const client = createTestClient(xprv.app({ rootNode }));
+        const response = await client.get('/users/:id', { params: { id: 'a b' }, query: { fields: ['name'] } });
+
+        assert.equal(response.status, 200);
+        if (response.status === 200) {
+            assert.deepEqual(response.body, { id: 'a b', fields: ['name'] });
+        }
+    });
+
+    it('returns the response of onInternalServerError for handler errors', async () => {
+        const client = createTestClient(xprv.app({
+            rootNode,
+            errorHandlers: {
+                onInternalServerError: () => xprv.json({ status: 500, body: { message: 'Internal server error' } }),
+            },
+        }));
+        const response = await client.get('/broken');
+        assert.equal(response.status, 500);
+    });
+
+    it('rejects with the error when the app fails to answer', async () => {
+        const failure = new Error('error handler failed');
+        const client = createTestClient(xprv.app({
+            rootNode,
+            errorHandlers: {
+                onInternalServerError: () => {
+                    throw failure;
+                },
+            },
+        }));
+        await assert.rejects(client.get('/broken'), (error) => error === failure);
+    });
+
+    it('rejects with the error even when retries are on', async () => {
+        const failure = new Error('error handler failed');
+        const client = createTestClient(xprv.app({
+            rootNode,
+            errorHandlers: {
+                onInternalServerError: () => {
+                    throw failure;
+                },
+            },
+        }), { retry: { baseDelay: 0 } });
+        await assert.rejects(client.get('/broken'), (error) => error === failure);
+    });
+});
+
+describe('test client with a fixed context', () => {
+    const client = createTestClient(xprv.app({
+        rootNode: xprv.node({
+            path: '/',
+            children: [
+                xprv.node({
+                    path: '/me',
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider((): { user: { id: string } } => {
+                                throw new Error('no session store in tests');
+                            })
+                            .rateLimit({ limit: 0, windowMs: 60_000, key: () => 'everyone' })
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { id: context.user.id },
+                            })),
+                    },
+                }),
+            ],
+        }),
+    }));
+
+    it('hands the context to handlers past their provider and rate limit', async () => {
+        const response = await client.withContext({ user: { id: 'test' } }).get('/me');
+        assert.equal(response.status, 200);
+        if (response.status === 200) {
+            assert.deepEqual(response.body, { id: 'test' });
+        }
+    });
+
+    it('types the context as the one handlers receive', () => {
+        // @ts-expect-error no handler receives a numeric user id
+        assert.ok(client.withContext({ user: { id: 1 } }));
+    });
+});
+
+describe('head, options and request', () => {
+    const client = createTestClient(xprv.app({
+        rootNode: xprv.node({
+            path: '/',
+            children: [
+                xprv.node({
+                    path: '/items',
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                        post: xprv.handler.handle(async () => xprv.json({ status: 201, body: { created: true } })),
+                    },
+                }),
+            ],
+        }),
+    }));
+
+    it('head returns the headers of the GET response without its body', async () => {
+        const response = await client.head('/items');
+        assert.equal(response.kind, 'head');
+        assert.equal(response.status, 200);
+        assert.equal(response.body, undefined);
+        assert.match((response.headers as Record<string, string>)['content-type'] ?? '', /application\/json/);
+    });
+
+    it('options returns the allowed methods', async () => {
+        const response = await client.options('/items');
+        assert.equal(response.status, 204);
+        if (response.status === 204) {
+            assert.deepEqual(response.headers.allow.split(', ').sort(), ['GET', 'HEAD', 'OPTIONS', 'POST']);
+        }
+    });
+
+    it('request sends any method', async () => {
+        const response = await client.request('post', '/items');
+        assert.equal(response.status, 201);
+        if (response.status === 201) {
+            assert.deepEqual(response.body, { created: true });
+        }
+    });
+});
@@ -0,0 +1,88 @@
+import type { XPRVApp } from "../core/xprv-app";
+import { AppHandlerContext, Client, ClientConfig, ClientContract, ContractMode } from "./index";
+import { DispatchError } from "./request-error";
+
+// requests never leave the process, the host only fills the request URL
+const testBaseUrl = 'http://xprv.test';
+
+/**
+ * Test client configuration options
+ */
+export interface TestClientConfig<TContract extends ContractMode | undefined = undefined>
+    extends Omit<ClientConfig<TContract>, 'baseUrl' | 'fetchMethod'> {
+    // context handed to every handler, see `TestClient.withContext`
+    context?: object;
+}
+
+/**
+ * Client that dispatches requests through an app in memory, without a listening server
+ * It has the exact typed surface of `Client`, errors the app does not turn into a response reject the request
+ */
+export class TestClient<
+    TApp extends XPRVApp<any, any, any, any, any, any, any>,
+    TContract extends ContractMode | undefined = undefined
+> extends Client<TApp, TContract> {
+    constructor(
+        private readonly app: TApp,
+        private readonly config: TestClientConfig<TContract> = {}
+    ) {
+        super({
+            // the app's own query format unless overridden
+            query: { arrays: app.query.arrays },
+            ...config,
+            baseUrl: testBaseUrl,
+            // the app failing is not a network failure, its error rejects the request as is
+            fetchMethod: (input, init) => app.dispatchRequest(
+                new Request(input, init),
+                config.context === undefined ? {} : { context: config.context }
+            ).catch((error: unknown) => {
+                throw new DispatchError(error);
+            }),
+        });
+    }
+
+    /**
+     * Client whose requests give handlers `context` as is, e.g. to fake auth
+     * `context` is typed as the context of one of the app's handlers, whichever route it is sent to
+     * Its requests skip every auth scheme, node guard, context provider, middleware and rate limit,
+     * of the app, its nodes and its handlers, only inputs are still validated
+     *
+     * @example
+     * ```typescript
+     * const resp = await client.withContext({ user: testUser }).get("/me");
+     * ```
+     */
+    withContext(context: AppHandlerContext<TApp>): TestClient<TApp, TContract> {
+        return new TestClient<TApp, TContract>(this.app, { ...this.config, context });
+    }
+}
+
+/**
+ * Mode of a test client contract, undefined without one
+ */
+type TestContractMode<TContract> = TContract extends { mode: infer TMode extends ContractMode }
+    ? TMode
+    : TContract extends object ? 'strict' : undefined;
+
+/**
+ * Create a test client for an app
+ * Its responses include `ContractViolation` when the config sets a "strict" contract
+ *
+ * @example
+ * ```typescript
+ * const client = createTestClient(xprvApp);
+ * const resp = await client.get("/utils/ping");
+ * ```
+ */
+export function createTestClient<
+    TApp extends XPRVApp<any, any, any, any, any, any, any>,
+    TContract extends ClientContract<ContractMode> | undefined = undefined
+>(
+    app: TApp,
+    config?: Omit<TestClientConfig, 'contract'> & { contract?: TContract }
+): TestClient<TApp, TestContractMode<TContract>> {
+    return new TestClient<TApp, TestContractMode<TContract>>(
+        app,
+        config as TestClientConfig<TestContractMode<TContract>> | undefined
+    );
+}
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv, { createTestClient } from "../index";
+import { get } from "../test-utils";
+
+const users: Record<string, { id: string; isAdmin: boolean }> = {
+    "ada-token": { id: "ada", isAdmin: true },
+    "bob-token": { id: "bob", isAdmin: false },
+};
+
+describe("auth", () => {
+    const bearer = xprv.auth.bearer((token) => users[token], { realm: "api" });
+    const serviceKey = xprv.auth.apiKey({ header: "x-api-key", verify: (key) => key === "service-key" && { service: "billing" } });
+    const queryKey = xprv.auth.apiKey({ query: "api_key", verify: (key) => key === "service-key" && { service: "billing" } });
+    const basic = xprv.auth.basic(({ username, password }) => username === "ada" && password === "p:ss" ? { id: "ada" } : null);
+
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/me",
+                    handlers: {
+                        get: xprv.handler.auth(bearer)
+                            .handle(async (input, context) => xprv.json({ status: 200, body: { id: context.principal.id } })),
+                    },
+                }),
+                xprv.node({
+                    path: "/service",
+                    handlers: {
+                        get: xprv.handler.auth(serviceKey)
+                            .handle(async (input, context) => xprv.json({ status: 200, body: context.principal })),
+                    },
+                }),
+                xprv.node({
+                    path: "/export",
+                    handlers: {
+                        get: xprv.handler.auth(queryKey)
+                            .handle(async (input, context) => xprv.json({ status: 200, body: context.principal })),
+                    },
+                }),
+                xprv.node({
+                    path: "/basic",
+                    handlers: {
+                        get: xprv.handler.auth(basic)
+                            .handle(async (input, context) => xprv.json({ status: 200, body: { id: context.principal.id } })),
+                    },
+                }),
+                xprv.node({
+                    path: "/admin",
+                    auth: bearer.authorize((principal) => principal.isAdmin),
+                    handlers: (scope) => ({
+                        get: scope.handler.handle(async (input, context) =>
+                            xprv.json({ status: 200, body: { admin: context.principal.id } })),
+                    }),
+                }),
+            ],
+        }),
+    });
+
+    it("adds the principal of a valid bearer token to the context", async () => {
+        const response = await get(app, "/me", { authorization: "Bearer ada-token" });
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { id: "ada" });
+    });
+
+    it("answers missing, unknown and malformed credentials with a 401 challenge", async () => {
+        for (const authorization of [undefined, "Bearer nobody", "Basic ada-token", "Bearer"]) {
+            const response = await get(app, "/me", authorization === undefined ? {} : { authorization });
+            assert.equal(response.status, 401, authorization);
+            assert.equal(response.headers.get("www-authenticate"), 'Bearer realm="api"');
+        }
+    });
+
+    it("reads API keys from a header or the query", async () => {
+        assert.equal((await get(app, "/service", { "x-api-key": "service-key" })).status, 200);
+        assert.equal((await get(app, "/service", { "x-api-key": "wrong" })).status, 401);
+        assert.equal((await get(app, "/export?api_key=service-key")).status, 200);
+        assert.equal((await get(app, "/export?api_key[key]=service-key")).status, 401);
+        assert.equal((await get(app, "/export?api_key=")).status, 401);
+    });
+
+    it("types the challenge for clients", async () => {
+        const response = await createTestClient(app).get("/me");
+        assert.equal(response.status, 401);
+        if (response.status === 401) {
+            const challenge: string = response.headers["www-authenticate"];
+            assert.equal(challenge, 'Bearer realm="api"');
+        }
+    });
+
+    it("splits basic credentials at the first colon", async () => {
+        const encoded = Buffer.from("ada:p:ss").toString("base64");
+        assert.equal((await get(app, "/basic", { authorization: `Basic ${encoded}` })).status, 200);
+
+        const wrong = Buffer.from("ada:pss").toString("base64");
+        const response = await get(app, "/basic", { authorization: `Basic ${wrong}` });
+        assert.equal(response.status, 401);
+        assert.equal(response.headers.get("www-authenticate"), 'Basic realm="xprv"');
+    });
+
+    it("answers 403 when an authorized scheme rejects the principal", async () => {
+        assert.equal((await get(app, "/admin", { authorization: "Bearer ada-token" })).status, 200);
+        assert.equal((await get(app, "/admin", { authorization: "Bearer bob-token" })).status, 403);
+        assert.equal((await get(app, "/admin")).status, 401);
+    });
+
+    it("is skipped by test clients with a fixed context", async () => {
+        const client = createTestClient(app).withContext({ principal: { id: "test" } });
+        const response = await client.get("/me");
+        assert.equal(response.status, 200);
+    });
+});
@@ -0,0 +1,243 @@
+import { json, JsonResponse } from "./json-response";
+import { JsonMiddleware, MiddlewareNext } from "./json-middleware";
+import { XPRVRequest } from "./xprv-request";
+
+/**
+ * How a scheme reads credentials, documented as an OpenAPI security scheme
+ */
+export type AuthSchemeInfo =
+    | { type: "http"; scheme: "bearer" }
+    | { type: "http"; scheme: "basic" }
+    | { type: "apiKey"; in: "header" | "query"; name: string };
+
+/**
+ * Sent when credentials are missing or invalid
+ * HTTP schemes send a `WWW-Authenticate` challenge, typed in lower case as clients receive header names
+ */
+export interface UnauthorizedResponse<TInfo extends AuthSchemeInfo = AuthSchemeInfo>
+    extends JsonResponse<
+        401,
+        { error: "Unauthorized" },
+        TInfo extends { type: "http" } ? { "www-authenticate": string } : {}
+    > {}
+
+/**
+ * Sent when a principal fails the checks added with `authorize`
+ */
+export type ForbiddenResponse = JsonResponse<403, { error: "Forbidden" }>;
+
+export type AuthResult<TPrincipal, TFailure> =
+    | { principal: TPrincipal }
+    | { response: TFailure };
+
+/**
+ * A way of authenticating requests, attached to handlers with `.auth(scheme)`
+ * and to nodes with their `auth` option
+ * The principal is added to the context as `principal`
+ */
+export interface AuthScheme<
+    TPrincipal,
+    TInfo extends AuthSchemeInfo = AuthSchemeInfo,
+    TFailure extends JsonResponse<any, any, any> = UnauthorizedResponse<TInfo>
+> {
+    readonly info: TInfo;
+    authenticate(request: XPRVRequest): Promise<AuthResult<TPrincipal, TFailure>>;
+    /**
+     * Scheme that also checks the principal, answering 403 when the check fails
+     */
+    authorize(
+        check: (principal: TPrincipal, request: XPRVRequest) => boolean | Promise<boolean>
+    ): AuthScheme<TPrincipal, TInfo, TFailure | ForbiddenResponse>;
+}
+
+/**
+ * Principal returned by a verify function, which returns undefined, null or false to reject
+ */
+export type AuthPrincipal<TResult> = Exclude<Awaited<TResult>, undefined | null | false>;
+
+export type AuthVerify<TCredentials, TResult> = (credentials: TCredentials, request: XPRVRequest) => TResult;
+
+export interface BasicCredentials {
+    username: string;
+    password: string;
+}
+
+export interface HttpAuthOptions {
+    // realm of the WWW-Authenticate challenge
+    realm?: string;
+}
+
+export interface ApiKeyHeaderOptions<TName extends string, TResult> {
+    header: TName;
+    verify: AuthVerify<string, TResult>;
+}
+
+export interface ApiKeyQueryOptions<TName extends string, TResult> {
+    query: TName;
+    verify: AuthVerify<string, TResult>;
+}
+
+type CheckPrincipal<TPrincipal> = (principal: TPrincipal, request: XPRVRequest) => boolean | Promise<boolean>;
+
+function forbidden(): ForbiddenResponse {
+    return json({ status: 403, body: { error: "Forbidden" } });
+}
+
+function createScheme<TPrincipal, TInfo extends AuthSchemeInfo, TFailure extends JsonResponse<any, any, any>>(
+    info: TInfo,
+    unauthorized: () => UnauthorizedResponse<TInfo>,
+    // resolves with undefined when the credentials are missing or rejected
+    identify: (request: XPRVRequest) => Promise<TPrincipal | undefined>,
+    checks: CheckPrincipal<TPrincipal>[]
+): AuthScheme<TPrincipal, TInfo, TFailure> {
+    return {
+        info,
+        async authenticate(request) {
+            const principal = await identify(request);
+            if (principal === undefined) {
+                return { response: unauthorized() as JsonResponse<any, any, any> as TFailure };
+            }
+            for (const check of checks) {
+                if (!await check(principal, request)) {
+                    return { response: forbidden() as JsonResponse<any, any, any> as TFailure };
+                }
+            }
+            return { principal };
+        },
+        authorize(check) {
+            return createScheme<TPrincipal, TInfo, TFailure | ForbiddenResponse>(
+                info,
+                unauthorized,
+                identify,
+                [...checks, check]
+            );
+        },
+    };
+}
+
+async function verified<TResult>(result: TResult): Promise<AuthPrincipal<TResult> | undefined> {
+    const principal = await result;
+    return principal === undefined || principal === null || principal === false
+        ? undefined
+        : principal as AuthPrincipal<TResult>;
+}
+
+// credentials of an Authorization header using the given scheme, e.g. "Bearer"
+function authorizationCredentials(request: XPRVRequest, scheme: string): string | undefined {
+    const match = /^(\S+)\s+(.+)$/.exec(request.get("authorization") ?? "");
+    return match !== null && match[1]!.toLowerCase() === scheme.toLowerCase()
+        ? match[2]!.trim()
+        : undefined;
+}
+
+function httpUnauthorized<TInfo extends AuthSchemeInfo>(challenge: string) {
+    return () => json({
+        status: 401,
+        body: { error: "Unauthorized" },
+        headers: { "www-authenticate": challenge },
+    }) as UnauthorizedResponse<TInfo>;
+}
+
+function challengeFor(scheme: string, options: HttpAuthOptions) {
+    return options.realm === undefined ? scheme : `${scheme} realm="${options.realm.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Authenticate with an `Authorization: Bearer <token>` header
+ */
+export function bearer<TResult>(
+    verify: AuthVerify<string, TResult>,
+    options: HttpAuthOptions = {}
+): AuthScheme<AuthPrincipal<TResult>, { type: "http"; scheme: "bearer" }> {
+    return createScheme(
+        { type: "http", scheme: "bearer" },
+        httpUnauthorized(challengeFor("Bearer", options)),
+        async (request) => {
+            const token = authorizationCredentials(request, "bearer");
+            return token === undefined ? undefined : verified(verify(token, request));
+        },
+        []
+    );
+}
+
+/**
+ * Authenticate with an `Authorization: Basic <base64 username:password>` header
+ */
+export function basic<TResult>(
+    verify: AuthVerify<BasicCredentials, TResult>,
+    options: HttpAuthOptions = {}
+): AuthScheme<AuthPrincipal<TResult>, { type: "http"; scheme: "basic" }> {
+    return createScheme(
+        { type: "http", scheme: "basic" },
+        httpUnauthorized(challengeFor("Basic", { realm: "xprv", ...options })),
+        async (request) => {
+            const encoded = authorizationCredentials(request, "basic");
+            if (encoded === undefined) {
+                return undefined;
+            }
+            const decoded = Buffer.from(encoded, "base64").toString("utf8");
+            const separator = decoded.indexOf(":");
+            if (separator === -1) {
+                return undefined;
+            }
+            return verified(verify({
+                username: decoded.slice(0, separator),
+                password: decoded.slice(separator + 1),
+            }, request));
+        },
+        []
+    );
+}
+
+/**
+ * Authenticate with an API key sent in a header or a query parameter
+ */
+export function apiKey<const TName extends string, TResult>(
+    options: ApiKeyHeaderOptions<TName, TResult>
+): AuthScheme<AuthPrincipal<TResult>, { type: "apiKey"; in: "header"; name: TName }>;
+export function apiKey<const TName extends string, TResult>(
+    options: ApiKeyQueryOptions<TName, TResult>
+): AuthScheme<AuthPrincipal<TResult>, { type: "apiKey"; in: "query"; name: TName }>;
+export function apiKey<TResult>(
+    options: ApiKeyHeaderOptions<string, TResult> | ApiKeyQueryOptions<string, TResult>
+): AuthScheme<AuthPrincipal<TResult>, { type: "apiKey"; in: "header" | "query"; name: string }> {
+    const info = "header" in options
+        ? { type: "apiKey", in: "header", name: options.header } as const
+        : { type: "apiKey", in: "query", name: options.query } as const;
+    return createScheme(
+        info,
+        () => json({ status: 401, body: { error: "Unauthorized" } }) as UnauthorizedResponse<typeof info>,
+        async (request) => {
+            const value = info.in === "header" ? request.get(info.name) : request.query[info.name];
+            const key = Array.isArray(value) ? value[0] : value;
+            return typeof key !== "string" || key === "" ? undefined : verified(options.verify(key, request));
+        },
+        []
+    );
+}
+
+/**
+ * Context added by a scheme
+ */
+export type AuthContext<TScheme> = TScheme extends AuthScheme<infer TPrincipal, any, any>
+    ? { principal: TPrincipal }
+    : {};
+
+/**
+ * Responses a scheme may answer with instead of running the handler
+ */
+export type AuthFailure<TScheme> = TScheme extends AuthScheme<any, any, infer TFailure>
+    ? TFailure
+    : never;
+
+/**
+ * Middleware adding the principal of a scheme to the context
+ */
+export function authMiddleware(
+    scheme: AuthScheme<any, any, any>
+): JsonMiddleware<any, MiddlewareNext<{ principal: unknown }> | JsonResponse<any, any, any>> {
+    return async (request, context, next) => {
+        const result = await scheme.authenticate(request);
+        return "response" in result ? result.response : next({ principal: result.principal });
+    };
+}
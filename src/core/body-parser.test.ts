@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { BodyParsers, parseByteLimit } from "./body-parser";
+
+function post(app: { fetch(request: Request): Promise<Response> }, path: string, contentType: string, body: BodyInit) {
+    return app.fetch(new Request(`http://xprv.test${path}`, {
+        method: "POST",
+        headers: { "content-type": contentType },
+        body,
+    }));
+}
+
+// the body sent as a stream, without the content-length header a client may omit
+function postStreamed(app: { fetch(request: Request): Promise<Response> }, path: string, contentType: string, body: string) {
+    return app.fetch(new Request(`http://xprv.test${path}`, {
+        method: "POST",
+        headers: { "content-type": contentType },
+        body: new Blob([body]).stream(),
+        duplex: "half",
+    } as RequestInit));
+}
+
+describe("body parsers", () => {
+    // answers with the parsed body serialized, buffers as hex
+    const echo = (parsers: BodyParsers = {}) => xprv.handler
+        .withBodyParsers(parsers)
+        .withInput({ body: z.unknown() })
+        .handle(async ({ body }) => xprv.json({
+            status: 200,
+            body: { body: Buffer.isBuffer(body) ? `buffer:${body.toString("hex")}` : JSON.stringify(body) },
+        }));
+    const app = xprv.app({
+        bodyParsers: { json: { limit: "64b" }, urlencoded: {}, text: {} },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({ path: "echo", handlers: { post: echo() } }),
+                xprv.node({
+                    path: "webhook",
+                    handlers: { post: echo({ json: false, raw: { types: ["application/json"] } }) },
+                }),
+                xprv.node({
+                    path: "loose",
+                    handlers: { post: echo({ json: { strict: false } }) },
+                }),
+            ],
+        }),
+    });
+
+    it("parse JSON, urlencoded and text bodies by content type", async () => {
+        const json = await post(app, "/echo", "application/vnd.api+json; charset=utf-8", JSON.stringify({ a: 1 }));
+        assert.deepEqual(await json.json(), { body: '{"a":1}' });
+
+        const form = await post(app, "/echo", "application/x-www-form-urlencoded", "a=1&tags=x&tags=y");
+        assert.deepEqual(await form.json(), { body: '{"a":"1","tags":["x","y"]}' });
+
+        const text = await post(app, "/echo", "text/plain", "hello");
+        assert.deepEqual(await text.json(), { body: '"hello"' });
+    });
+
+    it("leave bodies of unknown content types unparsed", async () => {
+        const response = await post(app, "/echo", "application/xml", "<a/>");
+        // no parser applies, the handler sees no body fields
+        assert.deepEqual(await response.json(), { body: "{}" });
+    });
+
+    it("answer malformed bodies with 400", async () => {
+        const malformed = await post(app, "/echo", "application/json", "{");
+        assert.equal(malformed.status, 400);
+
+        // strict JSON only accepts objects and arrays at the top level
+        const scalar = await post(app, "/echo", "application/json", "1");
+        assert.equal(scalar.status, 400);
+        const loose = await post(app, "/loose", "application/json", "1");
+        assert.deepEqual(await loose.json(), { body: "1" });
+    });
+
+    it("answer bodies over the limit with 413, streamed or not", async () => {
+        const large = JSON.stringify({ text: "x".repeat(100) });
+        assert.equal((await post(app, "/echo", "application/json", large)).status, 413);
+        assert.equal((await postStreamed(app, "/echo", "application/json", large)).status, 413);
+    });
+
+    it("hand a handler the raw bytes when it overrides the parsers", async () => {
+        const response = await post(app, "/webhook", "application/json", "{}");
+        assert.deepEqual(await response.json(), { body: "buffer:7b7d" });
+    });
+
+    it("report parse errors through onBodyParseError", async () => {
+        const custom = xprv.app({
+            errorHandlers: {
+                onBodyParseError: (error) => xprv.json({
+                    status: 422,
+                    body: { parser: error.parser, reason: error.reason },
+                }),
+            },
+            rootNode: xprv.node({ path: "/", handlers: { post: echo() } }),
+        });
+        const response = await post(custom, "/", "application/json", "{");
+        assert.equal(response.status, 422);
+        assert.deepEqual(await response.json(), { parser: "json", reason: "malformed" });
+    });
+});
+
+describe("parseByteLimit", () => {
+    it("reads bytes with or without a unit", () => {
+        assert.equal(parseByteLimit(10), 10);
+        assert.equal(parseByteLimit("100kb"), 102_400);
+        assert.equal(parseByteLimit("1.5 MB"), 1_572_864);
+        assert.throws(() => parseByteLimit("lots"), /Invalid body size limit "lots"/);
+    });
+});
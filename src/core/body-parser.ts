@@ -0,0 +1,221 @@
+import { parseSearchParams, XPRVRequest } from "./xprv-request";
+
+/**
+ * Maximum body size, in bytes or with a unit, e.g. "100kb", "1mb"
+ */
+export type ByteLimit = number | string;
+
+export interface BodyParserOptions {
+    // defaults to "100kb"
+    limit?: ByteLimit;
+    // content types to parse, "*" matches any characters but "/"
+    types?: string[];
+}
+
+export interface JsonBodyParserOptions extends BodyParserOptions {
+    // only accept objects and arrays at the top level, defaults to true
+    strict?: boolean;
+}
+
+export interface MultipartBodyParserOptions {
+    // defaults to "10mb", for the whole body
+    limit?: ByteLimit;
+}
+
+/**
+ * Body parsers of an app or a handler, `false` turns a parser off
+ * - json: application/json and application/*+json, parsed with JSON.parse (on by default)
+ * - urlencoded: application/x-www-form-urlencoded, parsed like the query string
+ * - text: text/plain, as a string
+ * - raw: application/octet-stream, as a Buffer (e.g. to verify webhook signatures)
+ * - multipart: multipart/form-data, only read for handlers declaring `files`
+ * raw and text are tried first, so they can take over JSON content types
+ */
+export interface BodyParsers {
+    json?: JsonBodyParserOptions | false;
+    urlencoded?: BodyParserOptions | false;
+    text?: BodyParserOptions | false;
+    raw?: BodyParserOptions | false;
+    multipart?: MultipartBodyParserOptions;
+}
+
+export type BodyParserName = keyof BodyParsers;
+
+export type BodyParseErrorReason = "malformed" | "too-large";
+
+/**
+ * A request body that could not be parsed, passed to `onBodyParseError`
+ */
+export class BodyParseError extends Error {
+    readonly parser: BodyParserName;
+    readonly reason: BodyParseErrorReason;
+
+    constructor(parser: BodyParserName, reason: BodyParseErrorReason, message: string) {
+        super(message);
+        this.name = "BodyParseError";
+        this.parser = parser;
+        this.reason = reason;
+    }
+}
+
+export const defaultBodyParsers: BodyParsers = { json: {} };
+
+const parserOrder = ["raw", "text", "json", "urlencoded"] as const;
+
+const defaultTypes: Record<(typeof parserOrder)[number], string[]> = {
+    json: ["application/json", "application/*+json"],
+    urlencoded: ["application/x-www-form-urlencoded"],
+    text: ["text/plain"],
+    raw: ["application/octet-stream"],
+};
+
+const byteUnits: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+export function parseByteLimit(limit: ByteLimit): number {
+    if (typeof limit === "number") {
+        return limit;
+    }
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(limit);
+    if (match === null) {
+        throw new Error(`Invalid body size limit "${limit}"`);
+    }
+    return Math.floor(Number(match[1]) * (byteUnits[(match[2] ?? "b").toLowerCase()] ?? 1));
+}
+
+/**
+ * Handler parsers override the app's, parser by parser
+ */
+export function mergeBodyParsers(base: BodyParsers, override: BodyParsers | undefined): BodyParsers {
+    return override === undefined ? base : { ...base, ...override };
+}
+
+function matchesType(mimeType: string, patterns: string[]) {
+    return patterns.some((pattern) => {
+        const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*");
+        return new RegExp(`^${source}$`, "i").test(mimeType);
+    });
+}
+
+function tooLarge(limit: number, parser: BodyParserName) {
+    return new BodyParseError(parser, "too-large", `Body exceeds the limit of ${limit} bytes`);
+}
+
+/**
+ * Read the whole body, failing as soon as it outgrows the limit
+ */
+async function readLimited(request: Request, limit: number, parser: BodyParserName): Promise<Buffer> {
+    if (Number(request.headers.get("content-length")) > limit) {
+        throw tooLarge(limit, parser);
+    }
+    if (request.body === null) {
+        return Buffer.alloc(0);
+    }
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        size += value.byteLength;
+        if (size > limit) {
+            await reader.cancel();
+            throw tooLarge(limit, parser);
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Copy of the request whose body fails with a BodyParseError as soon as it outgrows the limit,
+ * for bodies read by the platform (e.g. with `formData()`)
+ */
+export function limitBody(request: Request, limit: number, parser: BodyParserName): Request {
+    if (Number(request.headers.get("content-length")) > limit) {
+        throw tooLarge(limit, parser);
+    }
+    if (request.body === null) {
+        return request;
+    }
+
+    let size = 0;
+    const body = request.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            size += chunk.byteLength;
+            if (size > limit) {
+                // also cancels the incoming stream
+                controller.error(tooLarge(limit, parser));
+                return;
+            }
+            controller.enqueue(chunk);
+        },
+    }));
+    return new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body,
+        duplex: "half",
+    } as RequestInit);
+}
+
+function decodeText(buffer: Buffer, contentType: string, parser: BodyParserName): string {
+    const charset = /;\s*charset=["']?([\w-]+)/i.exec(contentType)?.[1] ?? "utf-8";
+    try {
+        return new TextDecoder(charset).decode(buffer);
+    } catch {
+        throw new BodyParseError(parser, "malformed", `Unsupported charset "${charset}"`);
+    }
+}
+
+function parseJson(text: string, strict: boolean): unknown {
+    if (strict && !/^\s*[[{]/.test(text)) {
+        throw new BodyParseError("json", "malformed", "JSON body must be an object or an array");
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new BodyParseError("json", "malformed", "Malformed JSON body");
+    }
+}
+
+/**
+ * Parse the request body with the first parser accepting its content type
+ * Resolves with undefined when no parser applies or the body is empty,
+ * throws a BodyParseError when the body is malformed or too large
+ */
+export async function parseBody(request: XPRVRequest, parsers: BodyParsers): Promise<unknown> {
+    const contentType = request.get("content-type") ?? "";
+    const mimeType = (contentType.split(";")[0] ?? "").trim();
+    if (mimeType === "") {
+        return undefined;
+    }
+
+    for (const name of parserOrder) {
+        const options = parsers[name];
+        if (options === undefined || options === false || !matchesType(mimeType, options.types ?? defaultTypes[name])) {
+            continue;
+        }
+
+        const buffer = await readLimited(request.raw, parseByteLimit(options.limit ?? "100kb"), name);
+        if (buffer.byteLength === 0) {
+            return undefined;
+        }
+        switch (name) {
+            case "raw":
+                return buffer;
+            case "text":
+                return decodeText(buffer, contentType, name);
+            case "json":
+                return parseJson(
+                    decodeText(buffer, contentType, name),
+                    (options as JsonBodyParserOptions).strict ?? true
+                );
+            case "urlencoded":
+                return parseSearchParams(new URLSearchParams(decodeText(buffer, contentType, name)));
+        }
+    }
+    return undefined;
+}
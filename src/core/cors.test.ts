@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv from "../index";
+import { send } from "../test-utils";
+
+describe("cors", () => {
+    const listHandler = xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } }));
+    const app = xprv.app({
+        cors: {
+            origin: ["https://app.example.com", /\.example\.org$/],
+            credentials: true,
+            exposedHeaders: ["X-Total-Count"],
+            maxAge: 600,
+        },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({ path: "/private", handlers: { get: listHandler } }),
+                xprv.node({ path: "/public", cors: { origin: "*" }, handlers: { get: listHandler } }),
+                xprv.node({ path: "/internal", cors: false, handlers: { get: listHandler } }),
+            ],
+        }),
+    });
+
+    it("echoes an allowed origin with credentials", async () => {
+        const response = await send(app, "GET", "/private", { headers: { origin: "https://api.example.org" } });
+        assert.equal(response.headers.get("access-control-allow-origin"), "https://api.example.org");
+        assert.equal(response.headers.get("access-control-allow-credentials"), "true");
+        assert.equal(response.headers.get("access-control-expose-headers"), "X-Total-Count");
+        assert.match(response.headers.get("vary") ?? "", /Origin/);
+    });
+
+    it("sends no CORS headers to other origins", async () => {
+        const response = await send(app, "GET", "/private", { headers: { origin: "https://evil.example.net" } });
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("access-control-allow-origin"), null);
+        assert.equal(response.headers.get("access-control-allow-credentials"), null);
+    });
+
+    it("answers preflights with the methods of the node", async () => {
+        const response = await send(app, "OPTIONS", "/private", {
+            headers: {
+                origin: "https://app.example.com",
+                "access-control-request-method": "GET",
+                "access-control-request-headers": "authorization",
+            },
+        });
+        assert.equal(response.status, 204);
+        assert.equal(response.headers.get("access-control-allow-methods"), "GET, HEAD, OPTIONS");
+        assert.equal(response.headers.get("access-control-allow-headers"), "authorization");
+        assert.equal(response.headers.get("access-control-max-age"), "600");
+    });
+
+    it("lets nodes replace or turn off the app policy", async () => {
+        const open = await send(app, "GET", "/public", { headers: { origin: "https://anyone.test" } });
+        assert.equal(open.headers.get("access-control-allow-origin"), "*");
+        assert.equal(open.headers.get("access-control-allow-credentials"), null);
+
+        const off = await send(app, "GET", "/internal", { headers: { origin: "https://app.example.com" } });
+        assert.equal(off.headers.get("access-control-allow-origin"), null);
+    });
+
+    it("rejects any origin combined with credentials", () => {
+        const rootNode = xprv.node({ path: "/" });
+        assert.throws(() => xprv.app({ rootNode, cors: { origin: "*", credentials: true } }), /cannot be combined with credentials/);
+        assert.throws(() => xprv.node({ path: "/", cors: { origin: ["*"], credentials: true } }), /cannot be combined with credentials/);
+        assert.doesNotThrow(() => xprv.app({ rootNode, cors: { origin: () => true, credentials: true } }));
+    });
+});
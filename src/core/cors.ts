@@ -0,0 +1,114 @@
+import { XPRVRequest } from "./xprv-request";
+
+/**
+ * Origins allowed to call the API: "*" for any, an exact origin, a pattern,
+ * a list of those, or a function deciding per origin
+ */
+export type CorsOrigin =
+    | string
+    | RegExp
+    | (string | RegExp)[]
+    | ((origin: string, request: XPRVRequest) => boolean);
+
+/**
+ * CORS policy of an app or a node, nodes override the policy of their ancestors
+ */
+export interface CorsPolicy {
+    origin: CorsOrigin;
+    // send cookies and auth headers cross-origin, the request origin is then echoed instead of "*"
+    // requires an allow-list or a function as `origin`, "*" is rejected
+    credentials?: boolean;
+    // request headers allowed by preflights, defaults to the ones the preflight asks for
+    allowedHeaders?: string[];
+    // response headers readable by the browser
+    exposedHeaders?: string[];
+    // seconds a preflight may be cached for
+    maxAge?: number;
+}
+
+/**
+ * Reject policies that would let any site make credentialed requests
+ */
+export function assertCorsPolicy(policy: CorsPolicy | false | undefined) {
+    if (!policy || policy.credentials !== true) {
+        return;
+    }
+    const origins = Array.isArray(policy.origin) ? policy.origin : [policy.origin];
+    if (origins.includes("*")) {
+        throw new Error('CORS origin "*" cannot be combined with credentials, list the allowed origins or pass a function');
+    }
+}
+
+export function isPreflightRequest(request: XPRVRequest) {
+    return request.method === "OPTIONS"
+        && request.get("origin") !== undefined
+        && request.get("access-control-request-method") !== undefined;
+}
+
+function isOriginAllowed(policy: CorsPolicy, origin: string, request: XPRVRequest): boolean {
+    const { origin: allowed } = policy;
+    if (typeof allowed === "function") {
+        return allowed(origin, request);
+    }
+    return (Array.isArray(allowed) ? allowed : [allowed]).some((entry) =>
+        typeof entry === "string" ? entry === "*" || entry === origin : entry.test(origin)
+    );
+}
+
+function appendVary(headers: Headers, name: string) {
+    const vary = headers.get("vary");
+    if (vary === null) {
+        headers.set("vary", name);
+    } else if (!vary.split(",").some((entry) => entry.trim().toLowerCase() === name.toLowerCase())) {
+        headers.set("vary", `${vary}, ${name}`);
+    }
+}
+
+/**
+ * Add the CORS headers of a policy to a response
+ * `methods` are the methods a preflight is answered with
+ */
+export function applyCors(
+    response: Response,
+    request: XPRVRequest,
+    policy: CorsPolicy,
+    methods: string[]
+): Response {
+    const { headers } = response;
+    const anyOrigin = policy.origin === "*" && policy.credentials !== true;
+    if (!anyOrigin) {
+        appendVary(headers, "Origin");
+    }
+
+    const origin = request.get("origin");
+    if (origin === undefined || !isOriginAllowed(policy, origin, request)) {
+        return response;
+    }
+
+    headers.set("access-control-allow-origin", anyOrigin ? "*" : origin);
+    if (policy.credentials === true) {
+        headers.set("access-control-allow-credentials", "true");
+    }
+
+    if (!isPreflightRequest(request)) {
+        if (policy.exposedHeaders !== undefined && policy.exposedHeaders.length > 0) {
+            headers.set("access-control-expose-headers", policy.exposedHeaders.join(", "));
+        }
+        return response;
+    }
+
+    headers.set("access-control-allow-methods", methods.join(", "));
+    if (policy.allowedHeaders !== undefined) {
+        headers.set("access-control-allow-headers", policy.allowedHeaders.join(", "));
+    } else {
+        const requested = request.get("access-control-request-headers");
+        if (requested !== undefined) {
+            headers.set("access-control-allow-headers", requested);
+        }
+        appendVary(headers, "Access-Control-Request-Headers");
+    }
+    if (policy.maxAge !== undefined) {
+        headers.set("access-control-max-age", String(policy.maxAge));
+    }
+    return response;
+}
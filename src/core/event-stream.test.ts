@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv, { createTestClient } from "../index";
+import { get } from "../test-utils";
+import { formatServerSentEvent } from "./event-stream";
+
+describe("event streams", () => {
+    let produced = 0;
+    let finished = false;
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/ticks",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* ({ lastEventId }) {
+                            const start = Number(lastEventId ?? 0) + 1;
+                            for (let id = start; id < start + 2; id++) {
+                                yield xprv.event({ event: "tick", id: String(id), data: { id } });
+                            }
+                        })),
+                    },
+                }),
+                xprv.node({
+                    path: "/failing",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* () {
+                            yield xprv.event({ event: "step", data: "first", retry: 500 });
+                            throw new Error("producer failed");
+                        })),
+                    },
+                }),
+                xprv.node({
+                    path: "/counter",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* () {
+                            try {
+                                for (let id = 1; ; id++) {
+                                    await new Promise((resolve) => setImmediate(resolve));
+                                    produced = id;
+                                    yield xprv.event({ data: id });
+                                }
+                            } finally {
+                                finished = true;
+                            }
+                        })),
+                    },
+                }),
+                xprv.node({
+                    path: "/quiet",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* ({ signal }) {
+                            await new Promise((resolve) => signal.addEventListener("abort", resolve));
+                        }, { heartbeatInterval: 5 })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it("write events in the text/event-stream format", async () => {
+        const response = await get(app, "/ticks");
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("content-type"), "text/event-stream");
+        assert.equal(response.headers.get("cache-control"), "no-cache");
+        assert.equal(
+            await response.text(),
+            'id: 1\nevent: tick\ndata: {"id":1}\n\nid: 2\nevent: tick\ndata: {"id":2}\n\n'
+        );
+    });
+
+    it("hand the producer the Last-Event-ID of a reconnecting client", async () => {
+        const response = await get(app, "/ticks", { "last-event-id": "5" });
+        assert.match(await response.text(), /^id: 6\n/);
+    });
+
+    it("send an error event when the producer throws after it started", async () => {
+        const response = await get(app, "/failing");
+        assert.equal(
+            await response.text(),
+            'event: step\nretry: 500\ndata: "first"\n\nevent: error\ndata: {"error":"Internal Server Error"}\n\n'
+        );
+    });
+
+    it("pull events from the producer only as they are read", { timeout: 5_000 }, async () => {
+        const response = await get(app, "/counter");
+        const reader = response.body!.getReader();
+        await reader.read();
+        await reader.read();
+        // room for a producer that would run ahead of the reader
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        assert.ok(produced <= 3, `${produced} events produced for 2 reads`);
+
+        await reader.cancel();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        assert.equal(finished, true);
+    });
+
+    it("send heartbeat comments while the producer is idle", async () => {
+        const response = await get(app, "/quiet");
+        const reader = response.body!.getReader();
+        const { value } = await reader.read();
+        assert.equal(new TextDecoder().decode(value), ": heartbeat\n\n");
+        await reader.cancel();
+    });
+
+    it("are read back as events by the client", async () => {
+        const response = await createTestClient(app).get("/ticks");
+        assert.equal(response.kind, "event-stream");
+        const events = [];
+        if (response.kind === "event-stream") {
+            for await (const event of response.body) {
+                events.push(event);
+            }
+        }
+        assert.deepEqual(events, [
+            { event: "tick", id: "1", data: { id: 1 } },
+            { event: "tick", id: "2", data: { id: 2 } },
+        ]);
+    });
+
+    it("type the error event a failing producer ends with for the client", async () => {
+        const response = await createTestClient(app).get("/failing");
+        const failures: { readonly error: "Internal Server Error" }[] = [];
+        if (response.kind === "event-stream") {
+            for await (const event of response.body) {
+                if (event.event === "error") {
+                    failures.push(event.data);
+                }
+            }
+        }
+        assert.deepEqual(failures, [{ error: "Internal Server Error" }]);
+    });
+});
+
+describe("formatServerSentEvent", () => {
+    it("rejects line breaks in the id and the event name", () => {
+        assert.throws(() => formatServerSentEvent({ id: "1\ndata: forged", data: null }), /id cannot contain line breaks/);
+        assert.throws(() => formatServerSentEvent({ event: "tick\r", data: null }), /event cannot contain line breaks/);
+    });
+
+    it("leaves out an id containing NUL", () => {
+        assert.equal(formatServerSentEvent({ id: "a\0b", event: "tick", data: 1 }), "event: tick\ndata: 1\n\n");
+    });
+});
@@ -0,0 +1,183 @@
+import { AssertValidJson } from "./types/json";
+
+/**
+ * A single server-sent event
+ * `data` is sent as JSON, `event` names the event type on the client
+ */
+export interface ServerSentEvent<
+    TData = unknown,
+    TEvent extends string = string
+> {
+    readonly data: TData;
+    readonly event?: TEvent;
+    readonly id?: string;
+    // reconnection delay in milliseconds the client should use
+    readonly retry?: number;
+}
+
+/**
+ * Event that ends a stream whose producer threw after it started
+ * Its data is the `onInternalServerError` body, or the body of a thrown HttpError
+ */
+export type ServerSentErrorEvent<TData = unknown> = ServerSentEvent<TData, "error">;
+
+export interface ServerSentEventOptions<TData, TEvent extends string> {
+    data: TData;
+    event?: TEvent;
+    id?: string;
+    retry?: number;
+}
+
+/**
+ * State of the connection a stream is written to
+ */
+export interface EventStreamControl {
+    // value of the Last-Event-ID header sent by a reconnecting client
+    lastEventId: string | undefined;
+    // aborted when the client disconnects
+    signal: AbortSignal;
+}
+
+export interface EventStreamOptions {
+    // interval in milliseconds between heartbeat comments, 0 disables them
+    // defaults to 15000
+    heartbeatInterval?: number;
+}
+
+/**
+ * Response that streams events as text/event-stream
+ * The body produces the events once the connection is open
+ */
+export interface EventStreamResponse<TEvent extends ServerSentEvent<any, any>> {
+    readonly kind: "event-stream";
+    readonly status: 200;
+    readonly body: (control: EventStreamControl) => AsyncIterable<TEvent>;
+    readonly headers: {};
+    readonly heartbeatInterval: number;
+}
+
+export function event<
+    const TData,
+    const TEvent extends string = string
+>(options: ServerSentEventOptions<AssertValidJson<TData>, TEvent>): ServerSentEvent<TData, TEvent> {
+    return options as ServerSentEvent<TData, TEvent>;
+}
+
+export function eventStream<TEvent extends ServerSentEvent<any, any>>(
+    producer: (control: EventStreamControl) => AsyncIterable<TEvent>,
+    options?: EventStreamOptions
+): EventStreamResponse<TEvent> {
+    return {
+        kind: "event-stream",
+        status: 200,
+        body: producer,
+        headers: {},
+        heartbeatInterval: options?.heartbeatInterval ?? 15000,
+    };
+}
+
+export function isEventStreamResponse(value: unknown): value is EventStreamResponse<ServerSentEvent> {
+    return typeof value === "object"
+        && value !== null
+        && (value as EventStreamResponse<ServerSentEvent>).kind === "event-stream";
+}
+
+// a line break would end the field and let the rest of the value be read as other fields
+function assertSingleLine(field: string, value: string) {
+    if (/[\r\n]/.test(value)) {
+        throw new TypeError(`Server-sent event ${field} cannot contain line breaks: ${JSON.stringify(value)}`);
+    }
+}
+
+/**
+ * Serialize an event in the text/event-stream wire format
+ * Throws when `id` or `event` contain line breaks, an `id` containing NUL is left out as clients ignore it
+ */
+export function formatServerSentEvent(sse: ServerSentEvent): string {
+    let chunk = "";
+    if (sse.id !== undefined && !sse.id.includes("\0")) {
+        assertSingleLine("id", sse.id);
+        chunk += `id: ${sse.id}\n`;
+    }
+    if (sse.event !== undefined) {
+        assertSingleLine("event", sse.event);
+        chunk += `event: ${sse.event}\n`;
+    }
+    if (sse.retry !== undefined) {
+        chunk += `retry: ${sse.retry}\n`;
+    }
+    // JSON.stringify never emits raw newlines, so the data fits on one line
+    chunk += `data: ${JSON.stringify(sse.data ?? null)}\n\n`;
+    return chunk;
+}
+
+/**
+ * Body of an event stream response
+ * Events are pulled from the producer as the stream is read, until it finishes or the stream is cancelled,
+ * errors thrown once it has started are sent as an `error` event
+ */
+export function eventStreamBody(
+    response: EventStreamResponse<ServerSentEvent>,
+    control: EventStreamControl,
+    errorBody: (error: unknown) => unknown
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const abortController = new AbortController();
+    control.signal.addEventListener("abort", () => abortController.abort());
+    let events: AsyncIterator<ServerSentEvent> | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (response.heartbeatInterval > 0) {
+                heartbeat = setInterval(() => {
+                    // a reader that has not caught up does not need to be kept awake
+                    if ((controller.desiredSize ?? 0) > 0) {
+                        controller.enqueue(encoder.encode(": heartbeat\n\n"));
+                    }
+                }, response.heartbeatInterval);
+            }
+        },
+        // only called once the previous chunk was read, so a slow reader holds the producer back
+        async pull(controller) {
+            let chunk: string | undefined;
+            let last = false;
+            try {
+                events ??= response.body({
+                    lastEventId: control.lastEventId,
+                    signal: abortController.signal,
+                })[Symbol.asyncIterator]();
+                const next = await events.next();
+                last = next.done === true;
+                chunk = next.done ? undefined : formatServerSentEvent(next.value);
+            } catch (error) {
+                last = true;
+                const errorEvent: ServerSentErrorEvent = { event: "error", data: errorBody(error) };
+                chunk = formatServerSentEvent(errorEvent);
+            }
+            if (cancelled) {
+                return;
+            }
+            // nothing more is sent to a client that disconnected
+            if (abortController.signal.aborted) {
+                chunk = undefined;
+                last = true;
+            }
+            if (chunk !== undefined) {
+                controller.enqueue(encoder.encode(chunk));
+            }
+            if (last) {
+                clearInterval(heartbeat);
+                controller.close();
+            }
+        },
+        cancel() {
+            cancelled = true;
+            clearInterval(heartbeat);
+            abortController.abort();
+            // finish the producer, its pending step settles first when it is busy
+            void events?.return?.()?.catch(() => undefined);
+        },
+    });
+}
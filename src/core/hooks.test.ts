@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+
+describe("hooks", () => {
+    const calls: string[] = [];
+    const app = xprv.app({
+        hooks: {
+            onRequest: ({ method, route }) => { calls.push(`request ${method} ${route}`); },
+            onValidated: ({ input }) => { calls.push(`validated ${JSON.stringify(input.body)}`); },
+            onError: ({ error }) => { calls.push(`error ${(error as Error).message}`); },
+            onResponse: ({ status, body, durationMs }) => {
+                assert.ok(durationMs >= 0);
+                calls.push(`response ${status} ${JSON.stringify(body)}`);
+            },
+        },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/users/:id",
+                    handlers: {
+                        post: xprv.handler
+                            .withInput({ body: z.object({ name: z.string() }) })
+                            .withContextProvider(() => {
+                                calls.push("context");
+                                return {};
+                            })
+                            .handle(async ({ body }) => xprv.json({ status: 201, body: { name: body.name } })),
+                        get: xprv.handler.handle(async () => {
+                            throw new Error("boom");
+                        }),
+                    },
+                }),
+            ],
+        }),
+    });
+    const send = (method: string, path: string, body?: unknown) => app.fetch(new Request(`http://xprv.test${path}`, {
+        method,
+        ...(body === undefined ? {} : { headers: { "content-type": "application/json" }, body: JSON.stringify(body) }),
+    }));
+
+    it("run in order around a request", async () => {
+        calls.length = 0;
+        await send("POST", "/users/1", { name: "Ada" });
+        assert.deepEqual(calls, [
+            "request POST /users/:id",
+            'validated {"name":"Ada"}',
+            "context",
+            'response 201 {"name":"Ada"}',
+        ]);
+    });
+
+    it("skip onValidated for invalid input", async () => {
+        calls.length = 0;
+        const response = await send("POST", "/users/1", {});
+        assert.equal(response.status, 400);
+        assert.equal(calls.length, 2);
+        assert.match(calls[1] ?? "", /^response 400 /);
+    });
+
+    it("report errors before the response", async (t) => {
+        t.mock.method(console, "error", () => {});
+        calls.length = 0;
+        await send("GET", "/users/1");
+        assert.deepEqual(calls, [
+            "request GET /users/:id",
+            "validated {}",
+            "error boom",
+            'response 500 {"error":"Internal Server Error"}',
+        ]);
+    });
+
+    it("see unmatched requests without a route", async () => {
+        calls.length = 0;
+        await send("GET", "/missing");
+        assert.equal(calls[0], "request GET undefined");
+        assert.match(calls[1] ?? "", /^response 404 /);
+    });
+
+    it("do not change the response when they throw", async (t) => {
+        const logged = t.mock.method(console, "error", () => {});
+        const failing = xprv.app({
+            hooks: { onResponse: () => { throw new Error("hook failed"); } },
+            rootNode: xprv.node({
+                path: "/",
+                handlers: { get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })) },
+            }),
+        });
+        const response = await failing.fetch(new Request("http://xprv.test/"));
+        assert.equal(response.status, 200);
+        assert.equal(logged.mock.callCount(), 1);
+    });
+
+    it("hand their errors to onHookError", async (t) => {
+        const logged = t.mock.method(console, "error", () => {});
+        const reported: string[] = [];
+        const failing = xprv.app({
+            hooks: {
+                onValidated: () => { throw new Error("audit down"); },
+                onHookError: ({ hook, route, error }) => { reported.push(`${hook} ${route} ${(error as Error).message}`); },
+            },
+            rootNode: xprv.node({
+                path: "/",
+                children: [
+                    xprv.node({
+                        path: "/users/:id",
+                        handlers: { get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })) },
+                    }),
+                ],
+            }),
+        });
+        const response = await failing.fetch(new Request("http://xprv.test/users/1"));
+        assert.equal(response.status, 200);
+        assert.deepEqual(reported, ["onValidated /users/:id audit down"]);
+        assert.equal(logged.mock.callCount(), 0);
+    });
+});
@@ -0,0 +1,105 @@
+import { OutputValidationError } from "./output-validation";
+import { JsonRequest } from "./types/input";
+import { XPRVRequest } from "./xprv-request";
+
+export type HookInput = JsonRequest<unknown, unknown, unknown, unknown>;
+
+export interface RequestHookEvent {
+    request: XPRVRequest;
+    method: string;
+    // template of the matched route, e.g. "/users/:id", undefined when no route matched
+    route: string | undefined;
+    // epoch milliseconds at which the request came in
+    startedAt: number;
+}
+
+export interface ValidatedHookEvent extends RequestHookEvent {
+    // handler input after validation, merged with the inputs of enclosing nodes
+    input: HookInput;
+}
+
+export interface ResponseHookEvent extends RequestHookEvent {
+    // undefined when the request did not get past validation
+    input: HookInput | undefined;
+    status: number;
+    // body of the response before serialization, undefined for responses built by the app (e.g. preflights)
+    body: unknown;
+    durationMs: number;
+}
+
+export interface ErrorHookEvent extends RequestHookEvent {
+    input: HookInput | undefined;
+    // error sent to `onInternalServerError`
+    error: unknown;
+    durationMs: number;
+}
+
+export interface OutputMismatchHookEvent extends RequestHookEvent {
+    input: HookInput | undefined;
+    // mismatch between the handler response and its declared outputs, the response is sent as returned
+    error: OutputValidationError;
+}
+
+export interface HookErrorEvent extends RequestHookEvent {
+    // name of the hook that threw
+    hook: HookName;
+    error: unknown;
+}
+
+export type Hook<TEvent> = (event: TEvent) => void | Promise<void>;
+
+/**
+ * Lifecycle hooks of an app, e.g. for access logs and audit trails
+ * Hooks are awaited, errors they throw go to `onHookError` and do not change the response
+ */
+export interface XPRVHooks {
+    // before body parsing, guards and validation
+    onRequest?: Hook<RequestHookEvent>;
+    // once the handler input is valid, before the context provider and middlewares
+    onValidated?: Hook<ValidatedHookEvent>;
+    // once the response is ready to be sent, for every request
+    onResponse?: Hook<ResponseHookEvent>;
+    // for errors turned into a response by `onInternalServerError`, before `onResponse`
+    onError?: Hook<ErrorHookEvent>;
+    // for responses that do not match their declared outputs under the "log" `outputValidation` policy
+    onOutputMismatch?: Hook<OutputMismatchHookEvent>;
+    // for errors thrown by the other hooks, logged with `console.error` when not set
+    onHookError?: Hook<HookErrorEvent>;
+}
+
+export type HookName = Exclude<keyof XPRVHooks, "onHookError">;
+
+type HookEvent<TName extends HookName> = NonNullable<XPRVHooks[TName]> extends Hook<infer TEvent> ? TEvent & RequestHookEvent : never;
+
+export async function callHook<TName extends HookName>(
+    hooks: XPRVHooks,
+    name: TName,
+    event: HookEvent<TName>
+): Promise<void> {
+    const hook = hooks[name] as Hook<HookEvent<TName>> | undefined;
+    if (hook === undefined) {
+        return;
+    }
+    try {
+        await hook(event);
+    } catch (error) {
+        await reportHookError(hooks, { ...requestEvent(event), hook: name, error });
+    }
+}
+
+async function reportHookError(hooks: XPRVHooks, event: HookErrorEvent): Promise<void> {
+    if (hooks.onHookError === undefined) {
+        console.error(event.error);
+        return;
+    }
+    try {
+        await hooks.onHookError(event);
+    } catch (error) {
+        // nowhere left to report it
+        console.error(error);
+    }
+}
+
+function requestEvent({ request, method, route, startedAt }: RequestHookEvent): RequestHookEvent {
+    return { request, method, route, startedAt };
+}
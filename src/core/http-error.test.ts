@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv, { createTestClient, JsonResponse } from "../index";
+import { get } from "../test-utils";
+
+type NotFound = JsonResponse<404, { error: string }, {}>;
+
+function findUser(id: string) {
+    return id === "ada"
+        ? { id }
+        : xprv.fail(xprv.json({ status: 404, body: { error: `User ${id} not found` } }));
+}
+
+describe("HTTP errors", () => {
+    const errors: unknown[] = [];
+    const app = xprv.app({
+        errorHandlers: {
+            onInternalServerError: (error) => {
+                errors.push(error);
+                return xprv.json({ status: 500, body: { error: "Internal Server Error" } });
+            },
+        },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/users/:id",
+                    handlers: (scope) => ({
+                        get: scope.handler
+                            .throws<NotFound>()
+                            .handle(async ({ params }) => xprv.json({ status: 200, body: findUser(params.id) })),
+                    }),
+                }),
+                xprv.node({
+                    path: "/locked",
+                    guard: async () => xprv.fail(xprv.json({ status: 423, body: { error: "Locked" } })),
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    },
+                }),
+                xprv.node({
+                    path: "/teapot",
+                    handlers: {
+                        get: xprv.handler
+                            .use(() => { throw new xprv.HttpError(xprv.json({ status: 418, body: { error: "Teapot" } })); })
+                            .handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it("send the response thrown from a handler", async () => {
+        const client = createTestClient(app);
+        const found = await client.get("/users/:id", { params: { id: "ada" } });
+        assert.equal(found.status, 200);
+
+        const missing = await client.get("/users/:id", { params: { id: "bob" } });
+        assert.equal(missing.status, 404);
+        if (missing.status === 404) {
+            assert.deepEqual(missing.body, { error: "User bob not found" });
+        }
+    });
+
+    it("send the response thrown from a guard or a middleware", async () => {
+        const locked = await get(app, "/locked");
+        assert.equal(locked.status, 423);
+        const teapot = await get(app, "/teapot");
+        assert.equal(teapot.status, 418);
+        assert.deepEqual(await teapot.json(), { error: "Teapot" });
+    });
+
+    it("are not reported as failures", () => {
+        assert.deepEqual(errors, []);
+    });
+});
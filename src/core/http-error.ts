@@ -0,0 +1,36 @@
+import { JsonResponse } from "./json-response";
+
+/**
+ * Error carrying the response to send
+ * Thrown from a handler, middleware, guard or any code they call,
+ * it is sent as its response instead of going through `onInternalServerError`
+ * Declare it on the handler with `.throws<...>()` so it joins the response union
+ */
+export class HttpError<
+    TResponse extends JsonResponse<any, any, any> = JsonResponse<any, any, any>
+> extends Error {
+    readonly response: TResponse;
+
+    constructor(response: TResponse) {
+        super(`HTTP ${response.status}`);
+        this.name = "HttpError";
+        this.response = response;
+    }
+}
+
+/**
+ * Throw a response as an HttpError
+ *
+ * @example
+ * ```typescript
+ * const user = await users.find(id)
+ *     ?? xprv.fail(xprv.json({ status: 404, body: { error: "User not found" } }));
+ * ```
+ */
+export function fail<TResponse extends JsonResponse<any, any, any>>(response: TResponse): never {
+    throw new HttpError(response);
+}
+
+export function isHttpError(value: unknown): value is HttpError {
+    return value instanceof HttpError;
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv from "../index";
+import { get } from "../test-utils";
+
+describe("middlewares", () => {
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            handlers: {
+                get: xprv.handler
+                    .use((request, context, next) => next({ steps: ["first"] }))
+                    .use((request, context, next) => request.get("x-stop") === undefined
+                        ? next({ steps: [...context.steps, "second"] })
+                        : xprv.json({ status: 403, body: { error: "stopped" } }))
+                    .handle(async (input, context) => xprv.json({ status: 200, body: { steps: context.steps } })),
+            },
+        }),
+    });
+
+    it("run in order, each extending the context", async () => {
+        const response = await get(app, "/");
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { steps: ["first", "second"] });
+    });
+
+    it("short-circuit with a response", async () => {
+        const response = await get(app, "/", { "x-stop": "1" });
+        assert.equal(response.status, 403);
+        assert.deepEqual(await response.json(), { error: "stopped" });
+    });
+});
+
+describe("context providers", () => {
+    const bearer = xprv.auth.bearer(async (token) => token === "secret" ? { id: "ada" } : undefined);
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/me",
+                    handlers: {
+                        get: xprv.handler
+                            .auth(bearer)
+                            .withContextProvider(async (request) => ({ locale: request.get("accept-language") ?? "en" }))
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { id: context.principal.id, locale: context.locale },
+                            })),
+                    },
+                }),
+                xprv.node({
+                    path: "/chained",
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider(() => ({ first: true }))
+                            .withContextProvider((request) => request.get("x-deny") === undefined
+                                ? { second: true }
+                                : xprv.json({ status: 403, body: { error: "denied" } }))
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { first: context.first, second: context.second },
+                            })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it("keep the auth scheme added before them", async () => {
+        const response = await get(app, "/me");
+        assert.equal(response.status, 401);
+    });
+
+    it("extend the context of the steps before them", async () => {
+        const response = await get(app, "/me", { authorization: "Bearer secret", "accept-language": "fr" });
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { id: "ada", locale: "fr" });
+    });
+
+    it("merge with an earlier provider and may short-circuit", async () => {
+        const allowed = await get(app, "/chained");
+        assert.deepEqual(await allowed.json(), { first: true, second: true });
+
+        const denied = await get(app, "/chained", { "x-deny": "1" });
+        assert.equal(denied.status, 403);
+    });
+});
@@ -0,0 +1,81 @@
+import { JsonResponse } from "./json-response";
+import { XPRVRequest } from "./xprv-request";
+
+/**
+ * Returned by a middleware (through `next`) to continue the chain
+ * The extension is merged into the accumulated context
+ */
+export interface MiddlewareNext<TExtension> {
+    readonly type: "next";
+    readonly context: TExtension;
+}
+
+export type MiddlewareNextFunction = <TExtension extends object = {}>(
+    extension?: TExtension
+) => MiddlewareNext<TExtension>;
+
+/**
+ * A single step of a handler's middleware chain
+ * Either continues with `next(extension)` or short-circuits with a JsonResponse
+ */
+export type JsonMiddleware<
+    TContext,
+    TResult extends MiddlewareNext<any> | JsonResponse<any, any, any>
+> = (
+    request: XPRVRequest,
+    context: TContext,
+    next: MiddlewareNextFunction
+) => TResult | Promise<TResult>;
+
+/**
+ * Extract the context extension passed to `next` by a middleware
+ */
+export type MiddlewareExtension<TResult> = TResult extends MiddlewareNext<infer TExtension>
+    ? TExtension
+    : never;
+
+/**
+ * Extract the short-circuit responses a middleware may return
+ */
+export type MiddlewareResponse<TResult> = Exclude<TResult, MiddlewareNext<any>>;
+
+/**
+ * Merge a context extension into an existing context, extension keys win
+ */
+export type MergeContext<TContext, TExtension> = [TExtension] extends [never]
+    ? TContext
+    : TExtension extends any
+        ? { [K in keyof (Omit<TContext, keyof TExtension> & TExtension)]: (Omit<TContext, keyof TExtension> & TExtension)[K] }
+        : never;
+
+export const next: MiddlewareNextFunction = (extension) => ({
+    type: "next",
+    context: extension ?? ({} as any),
+});
+
+export function isMiddlewareNext(value: unknown): value is MiddlewareNext<unknown> {
+    return typeof value === "object"
+        && value !== null
+        && (value as MiddlewareNext<unknown>).type === "next"
+        && "context" in value;
+}
+
+/**
+ * Run a middleware chain in order, accumulating the context
+ * Stops at the first middleware that returns a response
+ */
+export async function runMiddlewares(
+    middlewares: JsonMiddleware<any, any>[],
+    request: XPRVRequest,
+    context: object
+): Promise<MiddlewareNext<object> | JsonResponse<any, any, any>> {
+    let accumulated = context;
+    for (const middleware of middlewares) {
+        const result = await middleware(request, accumulated, next);
+        if (!isMiddlewareNext(result)) {
+            return result;
+        }
+        accumulated = { ...accumulated, ...(result.context as object) };
+    }
+    return next(accumulated);
+}
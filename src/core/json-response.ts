@@ -21,6 +21,19 @@ export interface JsonResponse<
     readonly headers: THeaders;
 }
 
+// marks objects created by `json` and the other response helpers
+// so they can be told apart from contexts
+const jsonResponseBrand = Symbol("xprv.json-response");
+
+export function isJsonResponse(value: unknown): value is JsonResponse<any, any, any> {
+    return typeof value === "object" && value !== null && jsonResponseBrand in value;
+}
+
+export function brandResponse<T extends object>(response: T): T {
+    Object.defineProperty(response, jsonResponseBrand, { value: true });
+    return response;
+}
+
 export function json<
     const TStatus extends number = number,
     const TBody =  undefined,
@@ -28,11 +41,12 @@ export function json<
 >(options: JsonOptions<TStatus, AssertValidJson<TBody>, THeaders>): JsonResponse<TStatus, TBody, THeaders> {
     // types when not present: TBody = undefined, THeaders = {}
     
-    return {
+    const response = {
         status: options.status,
         headers: options.headers == undefined ? {} as THeaders : options.headers,
         body: options.body as TBody
     }
+    return brandResponse(response);
 }
 
 const j1 = json({
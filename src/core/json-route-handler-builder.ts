@@ -1,28 +1,83 @@
-import { json, JsonResponse } from "./json-response";
-import { JsonRouteHandler, JsonRouteHandlerOptions } from "./json-route-handler";
+import { isJsonResponse, json, JsonResponse } from "./json-response";
+import { ContextProvider, JsonRouteHandler, JsonRouteHandlerOptions } from "./json-route-handler";
+import {
+    JsonMiddleware,
+    MergeContext,
+    MiddlewareExtension,
+    MiddlewareNext,
+    MiddlewareNextFunction,
+    MiddlewareResponse,
+} from "./json-middleware";
 import { JsonRequest, JsonSchemas } from "./types/input";
-import { Request, Response } from "express";
+import { JsonRouteScopeTypes, MergeRequest, RootScopeTypes } from "./types/scope";
+import {
+    EventStreamControl,
+    EventStreamOptions,
+    EventStreamResponse,
+    eventStream,
+    ServerSentEvent,
+} from "./event-stream";
+import {
+    HandlerResponse,
+    HandlerResponseConstraint,
+    JsonOutputSchemas,
+} from "./types/output";
+import { UploadedFiles, UploadSchemas } from "./upload";
+import { BodyParsers } from "./body-parser";
+import { RateLimitOptions, RateLimitResponse, rateLimiter } from "./rate-limit";
+import { AuthScheme, authMiddleware } from "./auth";
+import { XPRVRequest } from "./xprv-request";
 import z from "zod";
 
 export interface JsonRouteHandlerBuilderOptions<
     TInput extends JsonRequest<unknown, unknown, unknown, unknown>,
     TContext = {}
 > {
-    contextProvider?: (request: Request, response: Response) => TContext;
+    contextProvider?: ContextProvider<TContext, JsonResponse<any, any, any>>;
     schemas?: JsonSchemas<TInput['headers'], TInput['params'], TInput['query'], TInput['body']>;    
+    middlewares?: JsonMiddleware<any, any>[];
+    outputs?: JsonOutputSchemas;
+    uploads?: UploadSchemas;
+    bodyParsers?: BodyParsers;
 }
 
+// provider of builders that have not set one
+const emptyContext: ContextProvider<any, JsonResponse<any, any, any>> = () => ({});
+
+/**
+ * Body of a handler with file fields, the files are added next to the body fields
+ */
+type BodyWithFiles<TBody, TUploads extends UploadSchemas> = [keyof TUploads] extends [never]
+    ? TBody
+    : unknown extends TBody
+        ? UploadedFiles<TUploads>
+        : MergeContext<TBody, UploadedFiles<TUploads>>;
+
 export class JsonRouteHandlerBuilder<
     const TResponse extends JsonResponse<any, any, any>,
     TInput extends JsonRequest<unknown, unknown, unknown, unknown>,
-    TContext = {}
+    TContext = {},
+    // responses the context provider and middlewares may short-circuit with,
+    // and the responses declared as thrown
+    TEarlyResponse extends JsonResponse<any, any, any> = never,
+    TOutput extends JsonOutputSchemas | undefined = undefined,
+    // inputs, context and responses inherited from enclosing nodes
+    TScope extends JsonRouteScopeTypes = RootScopeTypes
 > {
 
-    contextProvider: (request: Request, response: Response) => TContext;
+    contextProvider: ContextProvider<TContext, JsonResponse<any, any, any>>;
     schemas: JsonSchemas<TInput['headers'], TInput['params'], TInput['query'], TInput['body']>;
+    middlewares: JsonMiddleware<any, any>[];
+    outputs: TOutput;
+    uploads: UploadSchemas | undefined;
+    bodyParsers: BodyParsers | undefined;
 
     constructor(options: JsonRouteHandlerBuilderOptions<TInput, TContext>) {
-        this.contextProvider = options.contextProvider ?? (() => ({} as TContext));
+        this.contextProvider = options.contextProvider ?? emptyContext;
+        this.middlewares = options.middlewares ?? [];
+        this.outputs = options.outputs as TOutput;
+        this.uploads = options.uploads;
+        this.bodyParsers = options.bodyParsers;
         this.schemas = {
             headers: options.schemas?.headers ?? z.unknown(),
             params: options.schemas?.params ?? z.unknown(),
@@ -31,47 +86,337 @@ export class JsonRouteHandlerBuilder<
         }
     }
 
-    withContextProvider<TNewContext>(
-        contextProvider: (request: Request, response: Response) => TNewContext
-    ):JsonRouteHandlerBuilder<TResponse, TInput, TNewContext> {
-        return new JsonRouteHandlerBuilder<TResponse, TInput, TNewContext>({
+    /**
+     * Add a context provider, it may be async and may return a JsonResponse
+     * (e.g. a 401) to skip the handler, those responses join the response union
+     * Its result extends the context, after `use`, `auth`, `rateLimit` or another
+     * provider it runs as the next step of the middleware chain
+     */
+    withContextProvider<TResult>(
+        contextProvider: (request: XPRVRequest) => TResult | Promise<TResult>
+    ):JsonRouteHandlerBuilder<
+        TResponse,
+        TInput,
+        MergeContext<TContext, Exclude<TResult, JsonResponse<any, any, any>>>,
+        TEarlyResponse | Extract<TResult, JsonResponse<any, any, any>>,
+        TOutput,
+        TScope
+    > {
+        const first = this.contextProvider === emptyContext && this.middlewares.length === 0;
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            TInput,
+            MergeContext<TContext, Exclude<TResult, JsonResponse<any, any, any>>>,
+            TEarlyResponse | Extract<TResult, JsonResponse<any, any, any>>,
+            TOutput,
+            TScope
+        >({
             schemas: this.schemas,
-            contextProvider: contextProvider
+            contextProvider: first
+                ? contextProvider as ContextProvider<any, JsonResponse<any, any, any>>
+                : this.contextProvider,
+            middlewares: first
+                ? this.middlewares
+                : [...this.middlewares, async (request, context, next) => {
+                    const result = await contextProvider(request);
+                    return isJsonResponse(result) ? result : next(result as object);
+                }],
+            ...this.optionalOptions()
         });
     }
 
-    withInput<H,P,Q,B>(
-        schemas: Partial<JsonSchemas<H,P,Q,B>>
-    ):JsonRouteHandlerBuilder<TResponse, JsonRequest<H,P,Q,B>, TContext> {
-        return new JsonRouteHandlerBuilder<TResponse, JsonRequest<H,P,Q,B>, TContext>({
+    /**
+     * Append a middleware to the chain
+     * Middlewares run in order after the context provider, each one either
+     * extends the context with `next({ ... })` or short-circuits with a JsonResponse
+     */
+    use<TResult extends MiddlewareNext<any> | JsonResponse<any, any, any>>(
+        middleware: (request: XPRVRequest, context: TContext, next: MiddlewareNextFunction) => TResult | Promise<TResult>
+    ):JsonRouteHandlerBuilder<
+        TResponse,
+        TInput,
+        MergeContext<TContext, MiddlewareExtension<TResult>>,
+        TEarlyResponse | MiddlewareResponse<TResult>,
+        TOutput,
+        TScope
+    > {
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            TInput,
+            MergeContext<TContext, MiddlewareExtension<TResult>>,
+            TEarlyResponse | MiddlewareResponse<TResult>,
+            TOutput,
+            TScope
+        >({
+            schemas: this.schemas,
+            contextProvider: this.contextProvider as ContextProvider<any, JsonResponse<any, any, any>>,
+            middlewares: [...this.middlewares, middleware],
+            ...this.optionalOptions()
+        });
+    }
+
+    /**
+     * Append a rate limit to the middleware chain, keyed by IP, a context field or a function
+     * Requests over the limit get a 429, which joins the handler's response union
+     */
+    rateLimit(
+        options: RateLimitOptions<TContext>
+    ):JsonRouteHandlerBuilder<
+        TResponse,
+        TInput,
+        TContext,
+        TEarlyResponse | RateLimitResponse,
+        TOutput,
+        TScope
+    > {
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            TInput,
+            TContext,
+            TEarlyResponse | RateLimitResponse,
+            TOutput,
+            TScope
+        >({
+            schemas: this.schemas,
+            contextProvider: this.contextProvider,
+            middlewares: [...this.middlewares, rateLimiter(options)],
+            ...this.optionalOptions()
+        });
+    }
+
+    /**
+     * Append an auth scheme to the middleware chain, adding its principal to the context
+     * Its 401, and its 403 when it authorizes, join the handler's response union
+     */
+    auth<TPrincipal, TFailure extends JsonResponse<any, any, any>>(
+        scheme: AuthScheme<TPrincipal, any, TFailure>
+    ):JsonRouteHandlerBuilder<
+        TResponse,
+        TInput,
+        MergeContext<TContext, { principal: TPrincipal }>,
+        TEarlyResponse | TFailure,
+        TOutput,
+        TScope
+    > {
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            TInput,
+            MergeContext<TContext, { principal: TPrincipal }>,
+            TEarlyResponse | TFailure,
+            TOutput,
+            TScope
+        >({
+            schemas: this.schemas,
+            contextProvider: this.contextProvider as ContextProvider<any, JsonResponse<any, any, any>>,
+            middlewares: [...this.middlewares, authMiddleware(scheme)],
+            ...this.optionalOptions()
+        });
+    }
+
+    /**
+     * Declare the responses that may be thrown as HttpError (e.g. with `xprv.fail`)
+     * They join the handler's response union, like middleware short-circuits
+     */
+    throws<TThrown extends JsonResponse<any, any, any>>():JsonRouteHandlerBuilder<
+        TResponse,
+        TInput,
+        TContext,
+        TEarlyResponse | TThrown,
+        TOutput,
+        TScope
+    > {
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            TInput,
+            TContext,
+            TEarlyResponse | TThrown,
+            TOutput,
+            TScope
+        >({
+            schemas: this.schemas,
             contextProvider: this.contextProvider,
+            middlewares: this.middlewares,
+            ...this.optionalOptions()
+        });
+    }
+
+    // Inputs inherited from enclosing nodes are merged in, node values win
+    // `files` makes the body multipart/form-data, files are added next to the body fields
+    withInput<H,P,Q,B,TUploads extends UploadSchemas = {}>(
+        schemas: Partial<JsonSchemas<H,P,Q,B>> & { files?: TUploads }
+    ):JsonRouteHandlerBuilder<
+        TResponse,
+        MergeRequest<JsonRequest<H,P,Q,BodyWithFiles<B, TUploads>>, TScope['input']>,
+        TContext,
+        TEarlyResponse,
+        TOutput,
+        TScope
+    > {
+        const { files, ...ownSchemas } = schemas;
+        const body = ownSchemas.body ?? z.unknown() as z.ZodType<B, B>;
+        return new JsonRouteHandlerBuilder<
+            TResponse,
+            MergeRequest<JsonRequest<H,P,Q,BodyWithFiles<B, TUploads>>, TScope['input']>,
+            TContext,
+            TEarlyResponse,
+            TOutput,
+            TScope
+        >({
+            contextProvider: this.contextProvider,
+            middlewares: this.middlewares,
+            ...(this.outputs === undefined ? {} : { outputs: this.outputs }),
+            ...(files === undefined ? {} : { uploads: files }),
+            ...(this.bodyParsers === undefined ? {} : { bodyParsers: this.bodyParsers }),
+            // only the handler's own schemas, inherited inputs are validated by the nodes
             schemas: {
-                headers: schemas.headers ?? z.unknown() as z.ZodType<H, H>,
-                params: schemas.params ?? z.unknown() as z.ZodType<P, P>,
-                query: schemas.query ?? z.unknown() as z.ZodType<Q, Q>,
-                body: schemas.body ?? z.unknown() as z.ZodType<B, B>
-            }
+                headers: ownSchemas.headers ?? z.unknown() as z.ZodType<H, H>,
+                params: ownSchemas.params ?? z.unknown() as z.ZodType<P, P>,
+                query: ownSchemas.query ?? z.unknown() as z.ZodType<Q, Q>,
+                body: files === undefined
+                    ? body
+                    : ownSchemas.body === undefined
+                        ? z.object(files)
+                        : z.intersection(ownSchemas.body, z.object(files))
+            } as JsonSchemas<any, any, any, any>
         });
     }
     
-    handle<JRes extends JsonResponse<any,any,any>>(
+    /**
+     * Declare a zod schema per response status
+     * Handler responses are checked against the schema inputs at compile time,
+     * and validated (unknown fields stripped) against them before being sent
+     */
+    withOutput<const TNewOutput extends JsonOutputSchemas>(
+        outputs: TNewOutput
+    ):JsonRouteHandlerBuilder<TResponse, TInput, TContext, TEarlyResponse, TNewOutput, TScope> {
+        return new JsonRouteHandlerBuilder<TResponse, TInput, TContext, TEarlyResponse, TNewOutput, TScope>({
+            contextProvider: this.contextProvider,
+            middlewares: this.middlewares,
+            schemas: this.schemas,
+            ...(this.uploads === undefined ? {} : { uploads: this.uploads }),
+            ...(this.bodyParsers === undefined ? {} : { bodyParsers: this.bodyParsers }),
+            outputs
+        });
+    }
+
+    /**
+     * Override the app body parsers for this handler, parser by parser
+     * e.g. `{ json: false, raw: { types: ["application/json"] } }` hands a webhook its raw bytes
+     */
+    withBodyParsers(
+        bodyParsers: BodyParsers
+    ):JsonRouteHandlerBuilder<TResponse, TInput, TContext, TEarlyResponse, TOutput, TScope> {
+        return new JsonRouteHandlerBuilder<TResponse, TInput, TContext, TEarlyResponse, TOutput, TScope>({
+            contextProvider: this.contextProvider,
+            middlewares: this.middlewares,
+            schemas: this.schemas,
+            ...this.optionalOptions(),
+            bodyParsers: { ...this.bodyParsers, ...bodyParsers }
+        });
+    }
+
+    handle<JRes extends HandlerResponseConstraint<TOutput>>(
         method: (input: TInput, context: TContext) => Promise<JRes>
-    ):JsonRouteHandler<JRes, TInput, TContext> {
+    ):JsonRouteHandler<
+        HandlerResponse<JRes, TOutput> | TEarlyResponse | TScope['response'],
+        TInput,
+        TContext
+    > {
+        return {
+            contextProvider: this.contextProvider,
+            schemas: this.schemas,
+            middlewares: this.middlewares,
+            ...this.optionalOptions(),
+            // bodies are narrowed to the declared outputs when validated at runtime
+            method: method as (input: TInput, context: TContext) => Promise<any>
+        }
+    }
+
+    /**
+     * Stream the events yielded by an async generator as text/event-stream
+     * The generator receives the Last-Event-ID of a reconnecting client and
+     * a signal that is aborted when the client disconnects
+     */
+    stream<TEvent extends ServerSentEvent<any, any>>(
+        generator: (input: TInput, context: TContext, control: EventStreamControl) => AsyncIterable<TEvent>,
+        options?: EventStreamOptions
+    ):JsonRouteHandler<
+        EventStreamResponse<TEvent> | TEarlyResponse | TScope['response'],
+        TInput,
+        TContext
+    > {
         return {
             contextProvider: this.contextProvider,
             schemas: this.schemas,
-            method
+            middlewares: this.middlewares,
+            ...(this.uploads === undefined ? {} : { uploads: this.uploads }),
+            ...(this.bodyParsers === undefined ? {} : { bodyParsers: this.bodyParsers }),
+            method: async (input, context) =>
+                eventStream((control) => generator(input, context, control), options)
         }
     }
 
-    static withContextProvider<TNewContext>(
-        contextProvider: (request: Request, response: Response) => TNewContext
+    // exactOptionalPropertyTypes: leave unset options out rather than set them to undefined
+    private optionalOptions(): { outputs?: JsonOutputSchemas; uploads?: UploadSchemas; bodyParsers?: BodyParsers } {
+        return {
+            ...(this.outputs === undefined ? {} : { outputs: this.outputs }),
+            ...(this.uploads === undefined ? {} : { uploads: this.uploads }),
+            ...(this.bodyParsers === undefined ? {} : { bodyParsers: this.bodyParsers }),
+        };
+    }
+
+    static withContextProvider<TResult>(
+        contextProvider: (request: XPRVRequest) => TResult | Promise<TResult>
     ) {
         return new JsonRouteHandlerBuilder({})
             .withContextProvider(contextProvider);
     }
     
-    static withInput<H,P,Q,B>(schemas: Partial<JsonSchemas<H,P,Q,B>>) {
+    static use<TResult extends MiddlewareNext<any> | JsonResponse<any, any, any>>(
+        middleware: (request: XPRVRequest, context: {}, next: MiddlewareNextFunction) => TResult | Promise<TResult>
+    ) {
+        return new JsonRouteHandlerBuilder({})
+            .use(middleware);
+    }
+
+    static stream<TEvent extends ServerSentEvent<any, any>>(
+        generator: (input: JsonRequest<unknown, unknown, unknown, unknown>, context: {}, control: EventStreamControl) => AsyncIterable<TEvent>,
+        options?: EventStreamOptions
+    ) {
+        const builder = new JsonRouteHandlerBuilder({});
+        return builder.stream(generator, options)
+    }
+
+    static rateLimit(options: RateLimitOptions<{}>) {
+        return new JsonRouteHandlerBuilder({})
+            .rateLimit(options);
+    }
+
+    static auth<TPrincipal, TFailure extends JsonResponse<any, any, any>>(
+        scheme: AuthScheme<TPrincipal, any, TFailure>
+    ) {
+        return new JsonRouteHandlerBuilder({})
+            .auth(scheme);
+    }
+
+    static throws<TThrown extends JsonResponse<any, any, any>>() {
+        return new JsonRouteHandlerBuilder({})
+            .throws<TThrown>();
+    }
+
+    static withOutput<const TOutput extends JsonOutputSchemas>(outputs: TOutput) {
+        return new JsonRouteHandlerBuilder({})
+            .withOutput(outputs);
+    }
+
+    static withBodyParsers(bodyParsers: BodyParsers) {
+        return new JsonRouteHandlerBuilder({})
+            .withBodyParsers(bodyParsers);
+    }
+
+    static withInput<H,P,Q,B,TUploads extends UploadSchemas = {}>(
+        schemas: Partial<JsonSchemas<H,P,Q,B>> & { files?: TUploads }
+    ) {
         return new JsonRouteHandlerBuilder({})
             .withInput(schemas);
     }
@@ -102,8 +447,19 @@ const builder = new JsonRouteHandlerBuilder({})
         })
     })
 
+/**
+ * Builder of handlers outside any scope, their input is typed from their own `withInput` schemas only
+ * Use the `scope.handler` of a node for the params of its path and its inherited inputs and context
+ */
 export const handler = {
     withContextProvider: JsonRouteHandlerBuilder.withContextProvider,
+    use: JsonRouteHandlerBuilder.use,
     withInput: JsonRouteHandlerBuilder.withInput,
-    handle: JsonRouteHandlerBuilder.handle
+    withOutput: JsonRouteHandlerBuilder.withOutput,
+    throws: JsonRouteHandlerBuilder.throws,
+    rateLimit: JsonRouteHandlerBuilder.rateLimit,
+    auth: JsonRouteHandlerBuilder.auth,
+    withBodyParsers: JsonRouteHandlerBuilder.withBodyParsers,
+    handle: JsonRouteHandlerBuilder.handle,
+    stream: JsonRouteHandlerBuilder.stream
 }
\ No newline at end of file
@@ -1,15 +1,36 @@
 import { JsonResponse } from "./json-response";
+import { JsonMiddleware } from "./json-middleware";
 import { JsonRequest, JsonSchemas } from "./types/input";
-import { Request, Response } from "express";
+import { JsonOutputSchemas } from "./types/output";
+import { UploadSchemas } from "./upload";
+import { BodyParsers } from "./body-parser";
+import { XPRVRequest } from "./xprv-request";
 
 
+/**
+ * Builds the handler context from the request
+ * May be async, and may return a JsonResponse to skip the handler
+ */
+export type ContextProvider<
+    TContext,
+    TEarlyResponse extends JsonResponse<any, any, any> = never
+> = (
+    request: XPRVRequest
+) => TContext | TEarlyResponse | Promise<TContext | TEarlyResponse>;
+
 export interface JsonRouteHandlerOptions<
     TResponse extends JsonResponse<any, any, any>,
     TInput extends JsonRequest<any, any, any, any>,
     TContext = {}
 > {
-    contextProvider: (request: Request, response: Response) => TContext;
+    contextProvider: ContextProvider<TContext, JsonResponse<any, any, any>>;
     schemas: JsonSchemas<TInput['headers'], TInput['params'], TInput['query'], TInput['body']>;
+    middlewares: JsonMiddleware<any, any>[];
+    outputs?: JsonOutputSchemas;
+    // file fields of a multipart/form-data body, already part of the body schema
+    uploads?: UploadSchemas;
+    // overrides of the app body parsers
+    bodyParsers?: BodyParsers;
     method: (input: TInput, context: TContext) => Promise<TResponse>;
 }
 
@@ -19,7 +40,13 @@ export interface JsonRouteHandler<
     TInput extends JsonRequest<any, any, any, any>,
     TContext = {}
 > {
-    contextProvider: (request: Request, response: Response) => TContext;
+    contextProvider: ContextProvider<TContext, JsonResponse<any, any, any>>;
     schemas: JsonSchemas<TInput['headers'], TInput['params'], TInput['query'], TInput['body']>;
+    middlewares: JsonMiddleware<any, any>[];
+    outputs?: JsonOutputSchemas;
+    // file fields of a multipart/form-data body, already part of the body schema
+    uploads?: UploadSchemas;
+    // overrides of the app body parsers
+    bodyParsers?: BodyParsers;
     method: (input: TInput, context: TContext) => Promise<TResponse>;
 }
\ No newline at end of file
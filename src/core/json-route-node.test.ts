@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv, { createTestClient } from "../index";
+
+describe("node inputs and guards", () => {
+    const calls: string[] = [];
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/orgs/:orgId",
+                    input: {
+                        params: z.object({ orgId: z.coerce.number() }),
+                        headers: z.object({ "x-member": z.string() }),
+                    },
+                    guard: async (request, input, context, next) => {
+                        calls.push(`org ${input.params.orgId}`);
+                        return input.headers["x-member"] === "yes"
+                            ? next({ orgName: `org-${input.params.orgId}` })
+                            : xprv.json({ status: 403, body: { error: "Not a member" } });
+                    },
+                    children: (scope) => [
+                        scope.node({
+                            path: "/projects/:projectId",
+                            guard: async (request, input, context, next) => {
+                                calls.push(`project ${input.params.projectId} of ${context.orgName}`);
+                                return next({ projectName: `${context.orgName}/${input.params.projectId}` });
+                            },
+                            handlers: (scope) => ({
+                                get: scope.handler.handle(async ({ params }, context) => xprv.json({
+                                    status: 200,
+                                    body: { orgId: params.orgId, project: context.projectName },
+                                })),
+                            }),
+                        }),
+                    ],
+                }),
+            ],
+        }),
+    });
+    const client = createTestClient(app);
+
+    it("validate their input once and hand it to every descendant", async () => {
+        calls.length = 0;
+        const response = await client.get("/orgs/:orgId/projects/:projectId", {
+            params: { orgId: 7, projectId: "web" },
+            headers: { "x-member": "yes" },
+        });
+        assert.equal(response.status, 200);
+        if (response.status === 200) {
+            // the node schema coerced the param for the handler
+            assert.deepEqual(response.body, { orgId: 7, project: "org-7/web" });
+        }
+        assert.deepEqual(calls, ["org 7", "project web of org-7"]);
+    });
+
+    it("stop at the first guard answering with a response", async () => {
+        calls.length = 0;
+        const response = await client.get("/orgs/:orgId/projects/:projectId", {
+            params: { orgId: 7, projectId: "web" },
+            headers: { "x-member": "no" },
+        });
+        assert.equal(response.status, 403);
+        assert.deepEqual(calls, ["org 7"]);
+    });
+
+    it("answer invalid node input before any guard runs", async () => {
+        calls.length = 0;
+        const response = await app.fetch(new Request("http://xprv.test/orgs/acme/projects/web", {
+            headers: { "x-member": "yes" },
+        }));
+        assert.equal(response.status, 400);
+        assert.deepEqual(calls, []);
+    });
+});
+
+describe("node path params", () => {
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/users/:id",
+                    handlers: (scope) => ({
+                        get: scope.handler.handle(async ({ params }) => xprv.json({ status: 200, body: { id: params.id } })),
+                        delete: xprv.handler.handle(async ({ params }) => {
+                            // @ts-expect-error handlers built outside a scope do not know the path of their node
+                            const id: string = params.id;
+                            return xprv.json({ status: 200, body: { id } });
+                        }),
+                    }),
+                }),
+            ],
+        }),
+    });
+    const client = createTestClient(app);
+
+    it("type the params of scoped handlers only, and hand them to every handler", async () => {
+        const scoped = await client.get("/users/:id", { params: { id: "7" } });
+        const unscoped = await client.delete("/users/:id", { params: { id: "7" } });
+        assert.deepEqual([scoped.body, unscoped.body], [{ id: "7" }, { id: "7" }]);
+    });
+});
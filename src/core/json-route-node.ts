@@ -1,13 +1,44 @@
 import z from "zod";
-import { json } from "./json-response";
+import { json, JsonResponse } from "./json-response";
 import { JsonRouteHandler } from "./json-route-handler";
-import { handler } from "./json-route-handler-builder";
+import { handler, JsonRouteHandlerBuilder } from "./json-route-handler-builder";
+import {
+    MergeContext,
+    MiddlewareExtension,
+    MiddlewareNext,
+    MiddlewareNextFunction,
+    MiddlewareResponse,
+} from "./json-middleware";
 import { HttpMethod } from "./types/http";
+import { JsonRequest, JsonSchemas } from "./types/input";
+import { JsonRouteScopeTypes, MergeRequest, RootScopeTypes } from "./types/scope";
+import { JoinPaths, PathParamsRequest } from "./types/path";
+import { pathParamNames } from "./path-params";
+import { XPRVRequest } from "./xprv-request";
+import { assertCorsPolicy, CorsPolicy } from "./cors";
+import { RateLimiter, RateLimitOptions, RateLimitResponse, rateLimiter } from "./rate-limit";
+import { AuthContext, AuthFailure, AuthScheme } from "./auth";
 
 export type JsonRouteHandlers = Partial<{
     [key in HttpMethod]: JsonRouteHandler<any, any, any>;
 }>
 
+/**
+ * Runs once per request for a node, before any descendant handler
+ * Either continues with `next(extension)`, extending the context of every
+ * descendant, or short-circuits with a JsonResponse
+ */
+export type JsonRouteGuard<
+    TInput,
+    TContext,
+    TResult extends MiddlewareNext<any> | JsonResponse<any, any, any>
+> = (
+    request: XPRVRequest,
+    input: TInput,
+    context: TContext,
+    next: MiddlewareNextFunction
+) => TResult | Promise<TResult>;
+
 export interface JsonRouteNode<
     TPath extends string,
     THandlers extends JsonRouteHandlers,
@@ -16,30 +47,149 @@ export interface JsonRouteNode<
     path: TPath;
     handlers: THandlers;
     children: TChildren;
+    input?: Partial<JsonSchemas<any, any, any, any>>;
+    guard?: JsonRouteGuard<any, any, any>;
+    cors?: CorsPolicy | false;
+    // runs before the input is validated
+    auth?: AuthScheme<any, any, any>;
+    // runs after the guard
+    rateLimiter?: RateLimiter;
 }
 
+/**
+ * Input of a node: params inferred from its full path as strings,
+ * then the inherited inputs, then the node's own schemas
+ */
+export type JsonRouteNodeInput<
+    TScope extends JsonRouteScopeTypes,
+    TPath extends string,
+    H, P, Q, B
+> = MergeRequest<
+    MergeRequest<PathParamsRequest<JoinPaths<TScope['path'], TPath>>, TScope['input']>,
+    JsonRequest<H, P, Q, B>
+>;
+
+/**
+ * Context the guard of a node receives: the inherited context and the principal of its auth scheme
+ */
+export type JsonRouteNodeGuardContext<
+    TScope extends JsonRouteScopeTypes,
+    TAuth
+> = MergeContext<TScope['context'], AuthContext<TAuth>>;
+
+/**
+ * Scope a node passes to its descendants: its full path, its inputs merged
+ * over the inherited ones, its principal and guard context and the responses
+ * of its auth, guard and rate limit
+ */
+export type JsonRouteNodeScopeTypes<
+    TScope extends JsonRouteScopeTypes,
+    TPath extends string,
+    H, P, Q, B,
+    TGuardResult,
+    TRateLimit = undefined,
+    TAuth = undefined
+> = {
+    path: JoinPaths<TScope['path'], TPath>;
+    input: JsonRouteNodeInput<TScope, TPath, H, P, Q, B>;
+    context: MergeContext<JsonRouteNodeGuardContext<TScope, TAuth>, MiddlewareExtension<TGuardResult>>;
+    response:
+        | TScope['response']
+        | AuthFailure<TAuth>
+        | MiddlewareResponse<TGuardResult>
+        | (TRateLimit extends RateLimitOptions ? RateLimitResponse : never);
+}
+
+/**
+ * Handler builder and node factory typed with everything a node passes down
+ */
+export interface JsonRouteScope<TScope extends JsonRouteScopeTypes> {
+    handler: JsonRouteHandlerBuilder<
+        JsonResponse<any, any, any>,
+        TScope['input'],
+        TScope['context'],
+        never,
+        undefined,
+        TScope
+    >;
+    node: JsonRouteNodeFactory<TScope>;
+}
 
 export interface JsonRouteNodeOptions<
     TPath extends string,
     THandlers extends JsonRouteHandlers,
     TChildren extends JsonRouteNode<any, any, any>[],
+    TScope extends JsonRouteScopeTypes = RootScopeTypes,
+    H = unknown,
+    P = unknown,
+    Q = unknown,
+    B = unknown,
+    TGuardResult extends MiddlewareNext<any> | JsonResponse<any, any, any> = never,
+    TRateLimit extends RateLimitOptions | undefined = undefined,
+    TAuth extends AuthScheme<any, any, any> | undefined = undefined,
 > {
     path: TPath;
-    handlers?: THandlers;
-    children?: TChildren;
+    // validated once per request and inherited by every descendant handler
+    input?: Partial<JsonSchemas<H, P, Q, B>>;
+    // authenticates every request before its input is validated, the principal is
+    // added to the context of the guard and of every descendant
+    auth?: TAuth;
+    guard?: JsonRouteGuard<
+        JsonRouteNodeInput<TScope, TPath, H, P, Q, B>,
+        JsonRouteNodeGuardContext<TScope, TAuth>,
+        TGuardResult
+    >;
+    // counted after the guard, requests over the limit get a 429 that joins the scope responses
+    // context keys are not checked here, since they would stop the guard context from being inferred
+    rateLimit?: TRateLimit;
+    // CORS policy of the node and its descendants, replaces the inherited one, `false` turns CORS off
+    cors?: CorsPolicy | false;
+    // pass a function to receive a scope typed with the node's inputs and guard context
+    handlers?: THandlers | ((scope: JsonRouteScope<JsonRouteNodeScopeTypes<TScope, TPath, H, P, Q, B, TGuardResult, TRateLimit, TAuth>>) => THandlers);
+    children?: TChildren | ((scope: JsonRouteScope<JsonRouteNodeScopeTypes<TScope, TPath, H, P, Q, B, TGuardResult, TRateLimit, TAuth>>) => TChildren);
 }
 
-
-export function node<
-    TPath extends string,
+export type JsonRouteNodeFactory<TScope extends JsonRouteScopeTypes> = <
+    const TPath extends string,
     THandlers extends JsonRouteHandlers = {},
     TChildren extends JsonRouteNode<any, any, any>[] = [],
->(options: JsonRouteNodeOptions<TPath, THandlers, TChildren>)
-    : JsonRouteNode<TPath, THandlers, TChildren> {
+    H = unknown,
+    P = unknown,
+    Q = unknown,
+    B = unknown,
+    TGuardResult extends MiddlewareNext<any> | JsonResponse<any, any, any> = never,
+    TRateLimit extends RateLimitOptions | undefined = undefined,
+    TAuth extends AuthScheme<any, any, any> | undefined = undefined,
+>(
+    options: JsonRouteNodeOptions<TPath, THandlers, TChildren, TScope, H, P, Q, B, TGuardResult, TRateLimit, TAuth>
+) => JsonRouteNode<TPath, THandlers, TChildren>;
+
+export const node: JsonRouteNodeFactory<RootScopeTypes> = (options) => {
+    const names = pathParamNames(options.path);
+    const repeated = names.find((name, index) => names.indexOf(name) !== index);
+    if (repeated !== undefined) {
+        throw new Error(`Path "${options.path}" declares the param ":${repeated}" more than once`);
+    }
+    assertCorsPolicy(options.cors);
+
+    // scopes only differ at the type level
+    const scope: JsonRouteScope<any> = {
+        handler: new JsonRouteHandlerBuilder({}),
+        node,
+    };
     return {
         path: options.path,
-        handlers: options.handlers ?? {} as THandlers,
-        children: options.children ?? [] as JsonRouteNode<any, any, any>[] as TChildren,
+        handlers: typeof options.handlers === "function"
+            ? options.handlers(scope)
+            : options.handlers ?? {} as any,
+        children: typeof options.children === "function"
+            ? options.children(scope)
+            : options.children ?? [] as any,
+        ...(options.input === undefined ? {} : { input: options.input }),
+        ...(options.auth === undefined ? {} : { auth: options.auth }),
+        ...(options.guard === undefined ? {} : { guard: options.guard }),
+        ...(options.cors === undefined ? {} : { cors: options.cors }),
+        ...(options.rateLimit === undefined ? {} : { rateLimiter: rateLimiter(options.rateLimit) }),
     }
 }
 
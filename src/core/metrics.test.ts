@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv, { MetricsRegistry } from "../index";
+import { get } from "../test-utils";
+
+describe("metrics registry", () => {
+    it("renders cumulative histogram buckets", () => {
+        const registry = new MetricsRegistry({ buckets: [1, 0.1], prefix: "api_" });
+        for (const durationSeconds of [0.05, 0.5, 3]) {
+            registry.observeRequest({ route: "/a", method: "GET", status: 200, durationSeconds });
+        }
+        const lines = registry.render().split("\n");
+        const labels = 'route="/a",method="GET",status="200"';
+
+        assert.ok(lines.includes(`api_http_requests_total{${labels}} 3`));
+        assert.ok(lines.includes(`api_http_request_duration_seconds_bucket{${labels},le="0.1"} 1`));
+        assert.ok(lines.includes(`api_http_request_duration_seconds_bucket{${labels},le="1"} 2`));
+        assert.ok(lines.includes(`api_http_request_duration_seconds_bucket{${labels},le="+Inf"} 3`));
+        assert.ok(lines.includes(`api_http_request_duration_seconds_count{${labels}} 3`));
+        assert.ok(lines.includes("# TYPE api_http_request_duration_seconds histogram"));
+    });
+
+    it("escapes label values", () => {
+        const registry = new MetricsRegistry();
+        registry.observeRequest({ route: '/a"b\\c', method: "GET", status: 200, durationSeconds: 0 });
+        assert.match(registry.render(), /route="\/a\\"b\\\\c"/);
+    });
+});
+
+describe("app metrics", () => {
+    const app = xprv.app({
+        metrics: true,
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/users/:id",
+                    handlers: {
+                        get: xprv.handler
+                            .withInput({ query: z.object({ page: z.coerce.number() }) })
+                            .handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it("label requests by route template, never by raw URL", async () => {
+        app.metrics?.reset();
+        await get(app, "/users/1?page=1");
+        await get(app, "/users/2?page=1");
+        await get(app, "/missing/1");
+        await get(app, "/missing/2");
+
+        const rendered = app.metrics?.render() ?? "";
+        assert.match(rendered, /^xprv_http_requests_total\{route="\/users\/:id",method="GET",status="200"\} 2$/m);
+        assert.match(rendered, /^xprv_http_requests_total\{route="unmatched",method="GET",status="404"\} 2$/m);
+        assert.doesNotMatch(rendered, /\/users\/1/);
+    });
+
+    it("count validation failures by input location", async () => {
+        app.metrics?.reset();
+        await get(app, "/users/1?page=first");
+        assert.match(
+            app.metrics?.render() ?? "",
+            /^xprv_validation_failures_total\{route="\/users\/:id",method="GET",location="query"\} 1$/m
+        );
+    });
+
+    it("are only served when turned on", () => {
+        assert.equal(typeof app.metricsRouter(), "function");
+        const off = xprv.app({ rootNode: xprv.node({ path: "/" }) });
+        assert.equal(off.metrics, undefined);
+        assert.throws(() => off.metricsRouter(), /Metrics are off/);
+    });
+});
@@ -0,0 +1,150 @@
+import { ValidationLocation } from "./types/error-handlers";
+
+export interface MetricsOptions {
+    // upper bounds of the latency histogram buckets, in seconds
+    // defaults to the Prometheus client defaults, 5ms to 10s
+    buckets?: number[];
+    // prepended to every metric name, defaults to "xprv_"
+    prefix?: string;
+}
+
+export interface RequestObservation {
+    // route template, undefined when no route matched
+    route: string | undefined;
+    method: string;
+    status: number;
+    durationSeconds: number;
+}
+
+export interface ValidationFailureObservation {
+    route: string | undefined;
+    method: string;
+    location: ValidationLocation;
+}
+
+const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// requests matching no route share one label, so unknown URLs do not add series
+const unmatchedRoute = "unmatched";
+
+export const prometheusContentType = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+    labels: Labels;
+    // counts per bucket, not cumulative
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+function escapeLabelValue(value: string) {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+    const entries = Object.entries(labels);
+    return entries.length === 0
+        ? ""
+        : `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatNumber(value: number) {
+    return Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : "-Inf";
+}
+
+/**
+ * In-process registry of the request metrics of an app
+ * Series are labeled by route template, method and status, never by raw URL
+ */
+export class MetricsRegistry {
+    private readonly buckets: number[];
+    private readonly prefix: string;
+    private readonly requests = new Map<string, { labels: Labels; value: number }>();
+    private readonly durations = new Map<string, Histogram>();
+    private readonly validationFailures = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(options: MetricsOptions = {}) {
+        this.buckets = [...(options.buckets ?? defaultBuckets)].sort((a, b) => a - b);
+        this.prefix = options.prefix ?? "xprv_";
+    }
+
+    observeRequest(observation: RequestObservation) {
+        const labels = {
+            route: observation.route ?? unmatchedRoute,
+            method: observation.method,
+            status: String(observation.status),
+        };
+        const key = formatLabels(labels);
+
+        const counter = this.requests.get(key) ?? { labels, value: 0 };
+        counter.value++;
+        this.requests.set(key, counter);
+
+        const histogram = this.durations.get(key)
+            ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        const bucket = this.buckets.findIndex((bound) => observation.durationSeconds <= bound);
+        if (bucket !== -1) {
+            histogram.counts[bucket]!++;
+        }
+        histogram.sum += observation.durationSeconds;
+        histogram.count++;
+        this.durations.set(key, histogram);
+    }
+
+    countValidationFailure(observation: ValidationFailureObservation) {
+        const labels = {
+            route: observation.route ?? unmatchedRoute,
+            method: observation.method,
+            location: observation.location,
+        };
+        const key = formatLabels(labels);
+        const counter = this.validationFailures.get(key) ?? { labels, value: 0 };
+        counter.value++;
+        this.validationFailures.set(key, counter);
+    }
+
+    /**
+     * Every metric in the Prometheus text exposition format
+     */
+    render(): string {
+        const lines: string[] = [];
+        const requests = `${this.prefix}http_requests_total`;
+        const durations = `${this.prefix}http_request_duration_seconds`;
+        const validationFailures = `${this.prefix}validation_failures_total`;
+
+        lines.push(`# HELP ${requests} Requests handled, by route template, method and status.`);
+        lines.push(`# TYPE ${requests} counter`);
+        for (const { labels, value } of this.requests.values()) {
+            lines.push(`${requests}${formatLabels(labels)} ${value}`);
+        }
+
+        lines.push(`# HELP ${durations} Request latency in seconds, by route template, method and status.`);
+        lines.push(`# TYPE ${durations} histogram`);
+        for (const { labels, counts, sum, count } of this.durations.values()) {
+            let cumulative = 0;
+            this.buckets.forEach((bound, index) => {
+                cumulative += counts[index]!;
+                lines.push(`${durations}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`);
+            });
+            lines.push(`${durations}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+            lines.push(`${durations}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${durations}_count${formatLabels(labels)} ${count}`);
+        }
+
+        lines.push(`# HELP ${validationFailures} Input validation failures, by route template, method and input location.`);
+        lines.push(`# TYPE ${validationFailures} counter`);
+        for (const { labels, value } of this.validationFailures.values()) {
+            lines.push(`${validationFailures}${formatLabels(labels)} ${value}`);
+        }
+
+        return `${lines.join("\n")}\n`;
+    }
+
+    reset() {
+        this.requests.clear();
+        this.durations.clear();
+        this.validationFailures.clear();
+    }
+}
@@ -0,0 +1,135 @@
+import type { Readable } from "node:stream";
+import { brandResponse } from "./json-response";
+
+interface ResponseOptions<TStatus extends number, THeaders> {
+    status?: TStatus;
+    headers?: THeaders;
+    // defaults to the content type of the response kind
+    contentType?: string;
+}
+
+export interface TextResponse<
+    TStatus extends number = number,
+    TBody extends string = string,
+    THeaders = {}
+> {
+    readonly kind: "text";
+    readonly status: TStatus;
+    readonly body: TBody;
+    readonly headers: THeaders;
+    readonly contentType: string;
+}
+
+export interface BinaryResponse<
+    TStatus extends number = number,
+    THeaders = {}
+> {
+    readonly kind: "binary";
+    readonly status: TStatus;
+    readonly body: Buffer | Readable;
+    readonly headers: THeaders;
+    readonly contentType: string;
+}
+
+export interface FileOptions<TStatus extends number, THeaders> extends ResponseOptions<TStatus, THeaders> {
+    // name suggested to the client in Content-Disposition, defaults to the file's name
+    filename?: string;
+}
+
+/**
+ * Response that sends a file from disk as an attachment
+ * The body is the path of the file
+ */
+export interface FileResponse<
+    TStatus extends number = number,
+    THeaders = {}
+> {
+    readonly kind: "file";
+    readonly status: TStatus;
+    readonly body: string;
+    readonly headers: THeaders;
+    readonly contentType: string | undefined;
+    readonly filename: string | undefined;
+}
+
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+export interface RedirectResponse<
+    TStatus extends RedirectStatus = RedirectStatus,
+    THeaders = {}
+> {
+    readonly kind: "redirect";
+    readonly status: TStatus;
+    readonly body: undefined;
+    readonly headers: THeaders;
+    readonly location: string;
+}
+
+export type NonJsonResponse =
+    | TextResponse<any, any, any>
+    | BinaryResponse<any, any>
+    | FileResponse<any, any>
+    | RedirectResponse<any, any>;
+
+export function text<
+    const TBody extends string,
+    const TStatus extends number = 200,
+    const THeaders = {}
+>(body: TBody, options?: ResponseOptions<TStatus, THeaders>): TextResponse<TStatus, TBody, THeaders> {
+    return brandResponse({
+        kind: "text",
+        status: options?.status ?? 200 as TStatus,
+        body,
+        headers: options?.headers ?? {} as THeaders,
+        contentType: options?.contentType ?? "text/plain; charset=utf-8",
+    });
+}
+
+export function binary<
+    const TStatus extends number = 200,
+    const THeaders = {}
+>(body: Buffer | Readable, options?: ResponseOptions<TStatus, THeaders>): BinaryResponse<TStatus, THeaders> {
+    return brandResponse({
+        kind: "binary",
+        status: options?.status ?? 200 as TStatus,
+        body,
+        headers: options?.headers ?? {} as THeaders,
+        contentType: options?.contentType ?? "application/octet-stream",
+    });
+}
+
+export function file<
+    const TStatus extends number = 200,
+    const THeaders = {}
+>(path: string, options?: FileOptions<TStatus, THeaders>): FileResponse<TStatus, THeaders> {
+    return brandResponse({
+        kind: "file",
+        status: options?.status ?? 200 as TStatus,
+        body: path,
+        headers: options?.headers ?? {} as THeaders,
+        // inferred from the file extension when not given
+        contentType: options?.contentType,
+        filename: options?.filename,
+    });
+}
+
+export function redirect<
+    const TStatus extends RedirectStatus,
+    const THeaders = {}
+>(status: TStatus, location: string, headers?: THeaders): RedirectResponse<TStatus, THeaders> {
+    return brandResponse({
+        kind: "redirect",
+        status,
+        body: undefined,
+        headers: headers ?? {} as THeaders,
+        location,
+    });
+}
+
+export function isNonJsonResponse(value: unknown): value is NonJsonResponse {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const kind = (value as { kind?: unknown }).kind;
+    return kind === "text" || kind === "binary" || kind === "file" || kind === "redirect";
+}
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { OutputMismatchPolicy } from "./types/output";
+import { OutputMismatchHookEvent } from "./hooks";
+import { send } from "../test-utils";
+
+function appWith(policy: OutputMismatchPolicy, mismatches: OutputMismatchHookEvent[] = []) {
+    return xprv.app({
+        outputValidation: policy,
+        hooks: { onOutputMismatch: (event) => { mismatches.push(event); } },
+        rootNode: xprv.node({
+            path: "/",
+            handlers: {
+                get: xprv.handler
+                    .withOutput({ 200: z.object({ id: z.string() }) })
+                    .handle(async () => xprv.json({ status: 200, body: { id: 1 } as unknown as { id: string } })),
+                post: xprv.handler
+                    .withOutput({ 200: z.object({ id: z.string() }) })
+                    .handle(async () => xprv.json({ status: 200, body: { id: "1", secret: "hidden" } })),
+            },
+        }),
+    });
+}
+
+describe("output validation", () => {
+    it("strips fields not in the schema", async () => {
+        const response = await send(appWith("error"), "POST", "/");
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { id: "1" });
+    });
+
+    it("answers a mismatch with the internal server error response by default", async () => {
+        const mismatches: OutputMismatchHookEvent[] = [];
+        const response = await send(appWith("error", mismatches), "GET", "/");
+        assert.equal(response.status, 500);
+        assert.equal(mismatches.length, 0);
+    });
+
+    it("reports a mismatch through onOutputMismatch under the log policy", async (t) => {
+        const logged = t.mock.method(console, "error", () => {});
+        const mismatches: OutputMismatchHookEvent[] = [];
+        const response = await send(appWith("log", mismatches), "GET", "/");
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { id: 1 });
+        assert.equal(mismatches.length, 1);
+        assert.equal(mismatches[0]?.route, "/");
+        assert.equal(mismatches[0]?.error.name, "OutputValidationError");
+        assert.equal(mismatches[0]?.error.status, 200);
+        assert.equal(logged.mock.callCount(), 0);
+    });
+
+    it("sends a mismatch as returned under the passthrough policy", async () => {
+        const mismatches: OutputMismatchHookEvent[] = [];
+        const response = await send(appWith("passthrough", mismatches), "GET", "/");
+        assert.equal(response.status, 200);
+        assert.equal(mismatches.length, 0);
+    });
+});
@@ -0,0 +1,58 @@
+import { ZodError } from "zod";
+import { JsonResponse } from "./json-response";
+import { JsonOutputSchemas, OutputMismatchPolicy } from "./types/output";
+import { isNonJsonResponse } from "./non-json-response";
+
+/**
+ * Raised when a handler response does not match its declared output schema
+ * `error` is undefined when no schema is declared for the status
+ */
+export class OutputValidationError extends Error {
+    readonly status: number;
+    readonly error: ZodError | undefined;
+
+    constructor(status: number, error?: ZodError) {
+        super(
+            error === undefined
+                ? `No output schema declared for status ${status}`
+                : `Response body for status ${status} does not match its output schema`
+        );
+        this.name = "OutputValidationError";
+        this.status = status;
+        this.error = error;
+    }
+}
+
+/**
+ * Validate a response against the declared output schemas
+ * Returns the response with the parsed (stripped) body when it matches,
+ * otherwise applies the mismatch policy, `report` receives the mismatches the "log" policy lets through
+ * Text, binary, file and redirect responses are not validated
+ */
+export function applyOutputSchemas(
+    outputs: JsonOutputSchemas | undefined,
+    response: JsonResponse<any, any, any>,
+    policy: OutputMismatchPolicy,
+    report: (error: OutputValidationError) => void
+): JsonResponse<any, any, any> {
+    if (outputs === undefined || isNonJsonResponse(response)) {
+        return response;
+    }
+
+    const schema = outputs[response.status];
+    const result = schema?.safeParse(response.body);
+    if (result?.success) {
+        return { ...response, body: result.data };
+    }
+
+    if (policy === "passthrough") {
+        return response;
+    }
+
+    const error = new OutputValidationError(response.status, result?.error);
+    if (policy === "log") {
+        report(error);
+        return response;
+    }
+    throw error;
+}
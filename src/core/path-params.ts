@@ -0,0 +1,9 @@
+// a param of a path: ":" followed by a JavaScript identifier, e.g. ":userId"
+export const pathParamPattern = /:([A-Za-z_$][\w$]*)/g;
+
+/**
+ * Names of the params of a path, in order and with repeats
+ */
+export function pathParamNames(path: string): string[] {
+    return [...path.matchAll(pathParamPattern)].map((match) => match[1]!);
+}
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { QueryArrayFormat, queryCodec } from "./query-codec";
+
+describe("query codec", () => {
+    const query = {
+        tags: ["a,b", "c d"],
+        filter: { status: "open", owner: { id: "7" } },
+        since: new Date("2024-01-02T03:04:05.000Z"),
+        draft: false,
+        page: 2,
+        skipped: undefined,
+    };
+    const parsed = {
+        tags: ["a,b", "c d"],
+        filter: { status: "open", owner: { id: "7" } },
+        since: "2024-01-02T03:04:05.000Z",
+        draft: "false",
+        page: "2",
+    };
+
+    for (const arrays of ["repeat", "comma", "brackets"] as QueryArrayFormat[]) {
+        it(`parses back what it writes with ${arrays} arrays`, () => {
+            const codec = queryCodec({ arrays });
+            assert.deepEqual(codec.parse(codec.stringify(query)), parsed);
+        });
+    }
+
+    it("writes arrays in the chosen format", () => {
+        assert.equal(queryCodec().stringify({ tags: ["a", "b"] }), "tags=a&tags=b");
+        assert.equal(queryCodec({ arrays: "comma" }).stringify({ tags: ["a", "b"] }), "tags=a,b");
+        assert.equal(queryCodec({ arrays: "brackets" }).stringify({ tags: ["a", "b"] }), "tags[]=a&tags[]=b");
+    });
+
+    it("parses a single bracketed item as an array", () => {
+        assert.deepEqual(queryCodec().parse("?tags[]=a&page=1"), { tags: ["a"], page: "1" });
+    });
+
+    it("keeps malformed escapes as sent", () => {
+        assert.deepEqual(queryCodec().parse("q=100%&name=a+b"), { q: "100%", name: "a b" });
+    });
+
+    it("drops keys that would reach the prototype", () => {
+        const result = queryCodec().parse("__proto__[admin]=1&filter[constructor][prototype]=1&a[__proto__]=1&ok=1");
+        assert.deepEqual(result, { ok: "1" });
+        assert.equal(({} as Record<string, unknown>).admin, undefined);
+    });
+});
+
+describe("app query parsing", () => {
+    const rootNode = xprv.node({
+        path: "/search",
+        handlers: {
+            get: xprv.handler
+                .withInput({
+                    query: z.object({
+                        tags: z.array(z.string()),
+                        filter: z.object({ status: z.string() }),
+                        since: z.coerce.date(),
+                        draft: z.stringbool(),
+                    }),
+                })
+                .handle(async ({ query }) => xprv.json({
+                    status: 200,
+                    body: {
+                        tags: query.tags.join("|"),
+                        status: query.filter.status,
+                        year: query.since.getUTCFullYear(),
+                        draft: query.draft,
+                    },
+                })),
+        },
+    });
+
+    it("decodes the query with the app's codec before validation", async () => {
+        const app = xprv.app({ rootNode, query: { arrays: "comma" } });
+        const response = await app.fetch(new Request(
+            "http://xprv.test/search?tags=a%2Cb,c&filter[status]=open&since=2024-01-02&draft=true"
+        ));
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { tags: "a,b|c", status: "open", year: 2024, draft: true });
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * How arrays are written in a query string:
+ * "repeat" as `tags=a&tags=b`, "comma" as `tags=a,b`, "brackets" as `tags[]=a&tags[]=b`
+ */
+export type QueryArrayFormat = "repeat" | "comma" | "brackets";
+
+export interface QueryCodecOptions {
+    // defaults to "repeat"
+    arrays?: QueryArrayFormat;
+}
+
+// nested objects are written with brackets, e.g. `filter[status]=open`
+export type QueryValue = string | QueryValue[] | { [key: string]: QueryValue };
+
+export type ParsedQuery = Record<string, QueryValue>;
+
+/**
+ * Query string format shared by an app and its clients
+ * Values are parsed back as strings, schemas coerce them, e.g. `z.coerce.date()` or `z.stringbool()`
+ */
+export interface QueryCodec {
+    readonly arrays: QueryArrayFormat;
+    // without the leading "?", empty when there is nothing to send
+    stringify(query: Record<string, unknown>): string;
+    // the leading "?" is optional
+    parse(search: string): ParsedQuery;
+}
+
+// keys that would reach the prototype of the parsed objects
+const unsafeKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+// dates as ISO strings, booleans as "true" and "false"
+function formatScalar(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function decode(value: string): string {
+    const spaced = value.replace(/\+/g, " ");
+    try {
+        return decodeURIComponent(spaced);
+    } catch {
+        // malformed escapes are kept as sent
+        return spaced;
+    }
+}
+
+function writePairs(pairs: string[], key: string, value: unknown, arrays: QueryArrayFormat) {
+    if (value === undefined || value === null) {
+        return;
+    }
+    if (Array.isArray(value)) {
+        const items = value.filter((item) => item !== undefined && item !== null);
+        if (arrays === "comma") {
+            // commas inside items are escaped, so only the separators are literal
+            if (items.length > 0) {
+                pairs.push(`${key}=${items.map((item) => encodeURIComponent(formatScalar(item))).join(",")}`);
+            }
+            return;
+        }
+        const itemKey = arrays === "brackets" ? `${key}[]` : key;
+        for (const item of items) {
+            pairs.push(`${itemKey}=${encodeURIComponent(formatScalar(item))}`);
+        }
+        return;
+    }
+    if (isPlainObject(value)) {
+        for (const [name, nested] of Object.entries(value)) {
+            writePairs(pairs, `${key}[${encodeURIComponent(name)}]`, nested, arrays);
+        }
+        return;
+    }
+    pairs.push(`${key}=${encodeURIComponent(formatScalar(value))}`);
+}
+
+// "filter[tags][]" -> ["filter", "tags", ""], undefined for keys reaching the prototype
+function parseKey(key: string): string[] | undefined {
+    const match = /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(key);
+    const segments = match === null
+        ? [key]
+        : [match[1]!, ...Array.from(match[2]!.matchAll(/\[([^[\]]*)\]/g), (bracket) => bracket[1]!)];
+    return segments.some((segment) => unsafeKeys.has(segment)) ? undefined : segments;
+}
+
+function toList(value: QueryValue): QueryValue[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+// add a value under the key segments, repeated keys become arrays
+function mergeValue(existing: QueryValue | undefined, segments: string[], value: QueryValue): QueryValue {
+    const [segment, ...rest] = segments;
+    if (segment === undefined) {
+        return existing === undefined ? value : [...toList(existing), ...toList(value)];
+    }
+    if (segment === "") {
+        // `key[]` makes an array even for a single item
+        const list = existing === undefined ? [] : toList(existing);
+        return rest.length === 0 ? [...list, ...toList(value)] : [...list, mergeValue(undefined, rest, value)];
+    }
+    // a key sent both as a value and as an object keeps the object
+    const object = isPlainObject(existing) ? existing as Record<string, QueryValue> : {};
+    object[segment] = mergeValue(Object.hasOwn(object, segment) ? object[segment] : undefined, rest, value);
+    return object;
+}
+
+export function queryCodec(options: QueryCodecOptions = {}): QueryCodec {
+    const arrays = options.arrays ?? "repeat";
+    return {
+        arrays,
+        stringify(query) {
+            const pairs: string[] = [];
+            for (const [key, value] of Object.entries(query)) {
+                writePairs(pairs, encodeURIComponent(key), value, arrays);
+            }
+            return pairs.join("&");
+        },
+        parse(search) {
+            const query: ParsedQuery = {};
+            for (const pair of search.replace(/^\?/, "").split("&")) {
+                if (pair === "") {
+                    continue;
+                }
+                const separator = pair.indexOf("=");
+                const segments = parseKey(decode(separator === -1 ? pair : pair.slice(0, separator)));
+                if (segments === undefined) {
+                    continue;
+                }
+                const raw = separator === -1 ? "" : pair.slice(separator + 1);
+                // split before decoding, escaped commas belong to the items
+                const items = arrays === "comma" ? raw.split(",").map(decode) : [decode(raw)];
+                const value = items.length > 1 ? items : items[0]!;
+                const [key, ...rest] = segments as [string, ...string[]];
+                query[key] = mergeValue(Object.hasOwn(query, key) ? query[key] : undefined, rest, value);
+            }
+            return query;
+        },
+    };
+}
+
+export const defaultQueryCodec = queryCodec();
@@ -0,0 +1,166 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import xprv, { createTestClient } from "../index";
+import { get } from "../test-utils";
+
+describe("rate limits", () => {
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/search",
+                    handlers: {
+                        get: xprv.handler
+                            .rateLimit({ limit: 2, windowMs: 60_000 })
+                            .handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    },
+                }),
+                xprv.node({
+                    path: "/me",
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider((request) => request.get("x-user") === undefined ? {} : { userId: request.get("x-user") })
+                            .rateLimit({ limit: 1, windowMs: 60_000, key: { context: "userId" } })
+                            .handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                    },
+                }),
+                xprv.node({
+                    path: "/reports",
+                    rateLimit: { limit: 1, windowMs: 60_000 },
+                    children: [
+                        xprv.node({
+                            path: "daily",
+                            handlers: { get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })) },
+                        }),
+                        xprv.node({
+                            path: "weekly",
+                            handlers: { get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { ok: true } })) },
+                        }),
+                    ],
+                }),
+            ],
+        }),
+    });
+
+    it("answer 429 with the rate limit headers once the limit is exceeded", async () => {
+        assert.equal((await get(app, "/search", {}, { ip: "10.0.0.1" })).status, 200);
+        assert.equal((await get(app, "/search", {}, { ip: "10.0.0.1" })).status, 200);
+
+        const response = await get(app, "/search", {}, { ip: "10.0.0.1" });
+        assert.equal(response.status, 429);
+        assert.equal(response.headers.get("retry-after"), "60");
+        assert.equal(response.headers.get("ratelimit-limit"), "2");
+        assert.equal(response.headers.get("ratelimit-remaining"), "0");
+        assert.equal(response.headers.get("ratelimit-reset"), "60");
+        assert.deepEqual(await response.json(), { error: "Too Many Requests", retryAfter: 60 });
+    });
+
+    it("type the rate limit headers for clients", async () => {
+        const client = createTestClient(app);
+        await client.get("/search");
+        await client.get("/search");
+        const response = await client.get("/search");
+        assert.equal(response.status, 429);
+        if (response.status === 429) {
+            const headers: { "retry-after": string; "ratelimit-limit": string } = response.headers;
+            assert.equal(headers["retry-after"], "60");
+            assert.equal(headers["ratelimit-limit"], "2");
+        }
+    });
+
+    it("count each client address separately", async () => {
+        assert.equal((await get(app, "/search", {}, { ip: "10.0.0.2" })).status, 200);
+    });
+
+    it("key on a context field, falling back to the client address", async () => {
+        assert.equal((await get(app, "/me", { "x-user": "ada" }, { ip: "10.0.0.3" })).status, 200);
+        // same user from another address
+        assert.equal((await get(app, "/me", { "x-user": "ada" }, { ip: "10.0.0.4" })).status, 429);
+        // another user from the same address
+        assert.equal((await get(app, "/me", { "x-user": "bob" }, { ip: "10.0.0.3" })).status, 200);
+        assert.equal((await get(app, "/me", {}, { ip: "10.0.0.3" })).status, 200);
+        assert.equal((await get(app, "/me", {}, { ip: "10.0.0.3" })).status, 429);
+    });
+
+    it("declared on a node count the requests of its whole subtree", async () => {
+        assert.equal((await get(app, "/reports/daily", {}, { ip: "10.0.0.5" })).status, 200);
+        assert.equal((await get(app, "/reports/weekly", {}, { ip: "10.0.0.5" })).status, 429);
+    });
+
+    it("are skipped by requests with a fixed context", async () => {
+        const unlimited = xprv.app({
+            rootNode: xprv.node({
+                path: "/",
+                handlers: {
+                    get: xprv.handler
+                        .rateLimit({ limit: 0, windowMs: 60_000 })
+                        .handle(async () => xprv.json({ status: 200, body: { ok: true } })),
+                },
+            }),
+        });
+        const response = await unlimited.dispatchRequest(new Request("http://xprv.test/"), { context: {} });
+        assert.equal(response.status, 200);
+    });
+});
+
+describe("memory store", () => {
+    it("starts a new fixed window once the previous one is over", (t) => {
+        t.mock.timers.enable({ apis: ["Date"], now: 0 });
+        const store = xprv.memoryStore();
+
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: true, count: 1, resetAt: 1_000 });
+        t.mock.timers.tick(500);
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: true, count: 2, resetAt: 1_000 });
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: false, count: 2, resetAt: 1_000 });
+        t.mock.timers.tick(500);
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: true, count: 1, resetAt: 2_000 });
+    });
+
+    it("weighs the previous window by its overlap with a sliding window", (t) => {
+        t.mock.timers.enable({ apis: ["Date"], now: 0 });
+        const store = xprv.memoryStore({ algorithm: "sliding" });
+
+        for (let i = 0; i < 4; i++) {
+            store.hit("a", 1_000, 10);
+        }
+        // a quarter into the next window, three quarters of the previous one still count
+        t.mock.timers.tick(1_250);
+        assert.deepEqual(store.hit("a", 1_000, 10), { allowed: true, count: 4, resetAt: 2_000 });
+        // two windows later, nothing carries over
+        t.mock.timers.tick(2_000);
+        assert.deepEqual(store.hit("a", 1_000, 10), { allowed: true, count: 1, resetAt: 4_000 });
+    });
+
+    it("does not count the hits of a client retrying while blocked", (t) => {
+        t.mock.timers.enable({ apis: ["Date"], now: 0 });
+        const store = xprv.memoryStore({ algorithm: "sliding" });
+
+        store.hit("a", 1_000, 2);
+        store.hit("a", 1_000, 2);
+        t.mock.timers.tick(500);
+        for (let i = 0; i < 5; i++) {
+            // the two hits of this window still count fully at its end, so the next hit is allowed right after
+            assert.deepEqual(store.hit("a", 1_000, 2), { allowed: false, count: 2, resetAt: 1_001 });
+        }
+        t.mock.timers.tick(500);
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: false, count: 2, resetAt: 1_001 });
+        t.mock.timers.tick(1);
+        assert.deepEqual(store.hit("a", 1_000, 2), { allowed: true, count: 2, resetAt: 2_000 });
+    });
+
+    it("tells a client blocked by the previous window when the sliding window lets it in", (t) => {
+        t.mock.timers.enable({ apis: ["Date"], now: 0 });
+        const store = xprv.memoryStore({ algorithm: "sliding" });
+
+        for (let i = 0; i < 4; i++) {
+            store.hit("a", 1_000, 4);
+        }
+        t.mock.timers.tick(1_250);
+        assert.deepEqual(store.hit("a", 1_000, 4), { allowed: true, count: 4, resetAt: 2_000 });
+        // three of the previous hits still count until a quarter of the window has gone by
+        assert.deepEqual(store.hit("a", 1_000, 4), { allowed: false, count: 4, resetAt: 1_251 });
+        t.mock.timers.tick(1);
+        assert.deepEqual(store.hit("a", 1_000, 4), { allowed: true, count: 4, resetAt: 2_000 });
+    });
+});
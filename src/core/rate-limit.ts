@@ -0,0 +1,188 @@
+import { json, JsonResponse } from "./json-response";
+import { JsonMiddleware, MiddlewareNext } from "./json-middleware";
+import { XPRVRequest } from "./xprv-request";
+
+/**
+ * Outcome of a hit for a key
+ */
+export interface RateLimitHit {
+    // false when the window already held `limit` hits, the hit was then not counted
+    allowed: boolean;
+    // hits counted for the key in its window, including this one when allowed
+    count: number;
+    // epoch milliseconds at which the window resets, or for a rejected hit, at which a hit is allowed again
+    resetAt: number;
+}
+
+/**
+ * Counter storage, implement it over a shared backend (e.g. Redis) to limit across instances
+ * Checking the count and counting the hit should be one atomic step, so concurrent requests cannot overshoot the limit
+ */
+export interface RateLimitStore {
+    // count a hit for the key unless its window already holds `limit` hits
+    hit(key: string, windowMs: number, limit: number): RateLimitHit | Promise<RateLimitHit>;
+}
+
+/**
+ * - "fixed": hits are counted per window, starting with the first hit of a key
+ * - "sliding": the hits of the previous window are weighted by how much of it
+ *   still overlaps the sliding window, smoothing bursts at window boundaries
+ */
+export type RateLimitAlgorithm = "fixed" | "sliding";
+
+export interface MemoryStoreOptions {
+    // defaults to "fixed"
+    algorithm?: RateLimitAlgorithm;
+}
+
+interface MemoryStoreEntry {
+    windowMs: number;
+    windowStart: number;
+    count: number;
+    previous: number;
+}
+
+/**
+ * In-memory store, counters are local to the process
+ */
+export function memoryStore(options: MemoryStoreOptions = {}): RateLimitStore {
+    const sliding = options.algorithm === "sliding";
+    const entries = new Map<string, MemoryStoreEntry>();
+    let nextSweep = 0;
+
+    // drop keys whose windows are over, so idle clients do not pile up
+    const sweep = (now: number) => {
+        for (const [key, entry] of entries) {
+            if (now >= entry.windowStart + entry.windowMs * (sliding ? 2 : 1)) {
+                entries.delete(key);
+            }
+        }
+    };
+
+    // for a rejected hit of a sliding window, the first millisecond at which the weighted count is below the limit
+    const allowedAgainAt = (entry: MemoryStoreEntry, limit: number) => {
+        const resetAt = entry.windowStart + entry.windowMs;
+        if (entry.count < limit) {
+            // the share of the previous window fades out during this one
+            return Math.floor(resetAt - (limit - entry.count) * entry.windowMs / entry.previous) + 1;
+        }
+        // this window becomes the previous one and has to fade out during the next
+        return entry.count === 0 ? resetAt : Math.floor(resetAt + entry.windowMs - limit * entry.windowMs / entry.count) + 1;
+    };
+
+    return {
+        hit(key, windowMs, limit) {
+            const now = Date.now();
+            if (now >= nextSweep) {
+                sweep(now);
+                nextSweep = now + windowMs;
+            }
+
+            const windowStart = sliding ? now - (now % windowMs) : now;
+            let entry = entries.get(key);
+            if (entry === undefined || now >= entry.windowStart + entry.windowMs) {
+                // with a sliding window, the window right before this one still counts
+                const previous = sliding && entry !== undefined && windowStart - entry.windowStart === windowMs
+                    ? entry.count
+                    : 0;
+                entry = { windowMs, windowStart, count: 0, previous };
+                entries.set(key, entry);
+            }
+
+            const resetAt = entry.windowStart + windowMs;
+            const carried = sliding ? Math.floor(entry.previous * (resetAt - now) / windowMs) : 0;
+            // rejected hits are not counted, so a client retrying while blocked is not kept blocked
+            const allowed = carried + entry.count < limit;
+            if (allowed) {
+                entry.count++;
+            }
+            return {
+                allowed,
+                count: carried + entry.count,
+                resetAt: allowed || !sliding ? resetAt : allowedAgainAt(entry, limit),
+            };
+        },
+    };
+}
+
+/**
+ * What requests are counted by:
+ * - "ip": the client address
+ * - `{ context: "userId" }`: a context field, falling back to the client address when it is not set
+ * - a function returning the key
+ */
+export type RateLimitKey<TContext> =
+    | "ip"
+    | { context: keyof TContext & string }
+    | ((request: XPRVRequest, context: TContext) => string | Promise<string>);
+
+export interface RateLimitOptions<TContext = any> {
+    // requests allowed per window
+    limit: number;
+    // window length in milliseconds
+    windowMs: number;
+    // defaults to "ip"
+    key?: RateLimitKey<TContext>;
+    // defaults to an in-memory store with a fixed window
+    store?: RateLimitStore;
+    // declarations with the same name share their counters, each declaration has its own by default
+    name?: string;
+}
+
+// header names are lower case, as clients receive them
+export type RateLimitResponse = JsonResponse<
+    429,
+    { error: "Too Many Requests"; retryAfter: number },
+    {
+        "retry-after": string;
+        "ratelimit-limit": string;
+        "ratelimit-remaining": string;
+        "ratelimit-reset": string;
+    }
+>;
+
+/**
+ * Middleware counting a hit per admitted request, short-circuits with a 429 once the limit is reached
+ */
+export type RateLimiter = JsonMiddleware<any, MiddlewareNext<{}> | RateLimitResponse>;
+
+let declarations = 0;
+
+async function resolveKey(key: RateLimitKey<any>, request: XPRVRequest, context: Record<string, unknown>) {
+    if (typeof key === "function") {
+        return key(request, context);
+    }
+    if (key !== "ip") {
+        const value = context[key.context];
+        if (value !== undefined && value !== null) {
+            return `${key.context}:${String(value)}`;
+        }
+    }
+    // requests without a known address share one counter
+    return `ip:${request.ip ?? "unknown"}`;
+}
+
+function tooManyRequests(limit: number, resetAt: number): RateLimitResponse {
+    const retryAfter = String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
+    return json({
+        status: 429,
+        body: { error: "Too Many Requests", retryAfter: Number(retryAfter) },
+        headers: {
+            "retry-after": retryAfter,
+            "ratelimit-limit": String(limit),
+            "ratelimit-remaining": "0",
+            "ratelimit-reset": retryAfter,
+        },
+    });
+}
+
+export function rateLimiter(options: RateLimitOptions): RateLimiter {
+    const store = options.store ?? memoryStore();
+    const prefix = `${options.name ?? `rate-limit-${++declarations}`}:`;
+    const key = options.key ?? "ip";
+
+    return async (request, context, next) => {
+        const hit = await store.hit(prefix + await resolveKey(key, request, context), options.windowMs, options.limit);
+        return hit.allowed ? next() : tooManyRequests(options.limit, hit.resetAt);
+    };
+}
@@ -0,0 +1,36 @@
+import { JsonRouteHandler } from "./json-route-handler";
+import { JsonRouteNode } from "./json-route-node";
+import { HttpMethod } from "./types/http";
+import { JsonOutputSchemas } from "./types/output";
+
+/**
+ * Declared output schemas of an app by route template and method,
+ * e.g. `{ "/users/:id": { get: { 200: userSchema, 404: notFoundSchema } } }`
+ */
+export type ResponseManifest = Record<string, Partial<Record<HttpMethod, JsonOutputSchemas>>>;
+
+// "users/:id/" and "/users/:id" name the same route
+export function normalizeRoute(route: string): string {
+    return "/" + route.split("/").filter((segment) => segment !== "").join("/");
+}
+
+/**
+ * Collect the output schemas of every handler declaring them with `withOutput`
+ */
+export function responseManifest(app: { rootNode: JsonRouteNode<any, any, any> }): ResponseManifest {
+    const manifest: ResponseManifest = {};
+    const visit = (node: JsonRouteNode<any, any, any>, base: string) => {
+        const route = normalizeRoute(`${base}/${node.path as string}`);
+        const handlers = node.handlers as Partial<Record<HttpMethod, JsonRouteHandler<any, any, any>>>;
+        for (const [method, handler] of Object.entries(handlers) as [HttpMethod, JsonRouteHandler<any, any, any>][]) {
+            if (handler.outputs !== undefined) {
+                manifest[route] = { ...manifest[route], [method]: handler.outputs };
+            }
+        }
+        for (const child of node.children as JsonRouteNode<any, any, any>[]) {
+            visit(child, route);
+        }
+    };
+    visit(app.rootNode, "");
+    return manifest;
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { Client } from "../client";
+import { parseTraceparent } from "./tracing";
+
+const traceId = "0af7651916cd43dd8448eb211c80319c";
+const parentId = "b7ad6b7169203331";
+
+describe("parseTraceparent", () => {
+    it("reads the trace, parent and sampled flag", () => {
+        assert.deepEqual(parseTraceparent(`00-${traceId}-${parentId}-01`), { traceId, spanId: parentId, sampled: true });
+        assert.deepEqual(parseTraceparent(`00-${traceId.toUpperCase()}-${parentId}-00`), { traceId, spanId: parentId, sampled: false });
+        // later versions may add fields
+        assert.equal(parseTraceparent(`01-${traceId}-${parentId}-01-extra`)?.traceId, traceId);
+    });
+
+    it("rejects malformed and invalid headers", () => {
+        for (const header of [
+            undefined,
+            "",
+            `00-${traceId}-${parentId}`,
+            `ff-${traceId}-${parentId}-01`,
+            `00-${traceId}-${parentId}-01-extra`,
+            `00-${"0".repeat(32)}-${parentId}-01`,
+            `00-${traceId}-${"0".repeat(16)}-01`,
+        ]) {
+            assert.equal(parseTraceparent(header), undefined, header);
+        }
+    });
+});
+
+describe("request tracing", () => {
+    const exporter = xprv.memoryExporter();
+    const app = xprv.app({
+        tracing: { exporter },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/users/:id",
+                    handlers: {
+                        get: xprv.handler
+                            .withInput({ query: z.object({ fields: z.string().optional() }) })
+                            .withContextProvider((request) => ({ traceparent: request.traceparent ?? "" }))
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { traceparent: context.traceparent },
+                            })),
+                    },
+                }),
+            ],
+        }),
+    });
+    const get = (headers: Record<string, string> = {}) =>
+        app.fetch(new Request("http://xprv.test/users/1", { headers }));
+
+    it("export a server span per request with a child span per phase", async () => {
+        exporter.reset();
+        await get();
+
+        const root = exporter.spans.find((span) => span.kind === "server");
+        assert.equal(root?.name, "GET /users/:id");
+        assert.equal(root?.parentSpanId, undefined);
+        assert.equal(root?.attributes["http.route"], "/users/:id");
+        assert.equal(root?.attributes["http.response.status_code"], 200);
+
+        const phases = exporter.spans.filter((span) => span.kind === "internal");
+        assert.ok(phases.every((span) => span.parentSpanId === root?.spanId && span.traceId === root.traceId));
+        for (const name of ["routing", "validate query", "context provider", "handler", "serialize"]) {
+            assert.ok(phases.some((span) => span.name === name), name);
+        }
+    });
+
+    it("continue the trace of an incoming traceparent", async () => {
+        exporter.reset();
+        const response = await get({ traceparent: `00-${traceId}-${parentId}-01` });
+
+        const root = exporter.spans.find((span) => span.kind === "server");
+        assert.equal(root?.traceId, traceId);
+        assert.equal(root?.parentSpanId, parentId);
+        // handlers hand it on to downstream requests
+        assert.deepEqual(await response.json(), { traceparent: `00-${traceId}-${root?.spanId}-01` });
+    });
+
+    it("do not export unsampled traces", async () => {
+        exporter.reset();
+        const response = await get({ traceparent: `00-${traceId}-${parentId}-00` });
+        assert.equal(response.status, 200);
+        assert.deepEqual(exporter.spans, []);
+    });
+
+    it("are continued by the client through the traceparent header", async () => {
+        const clientExporter = xprv.memoryExporter();
+        const client = new Client<typeof app>({
+            baseUrl: "http://xprv.test",
+            fetchMethod: (input, init) => app.fetch(new Request(input, init)),
+            tracing: { exporter: clientExporter },
+        });
+        exporter.reset();
+        await client.get("/users/:id", { params: { id: "1" } });
+
+        const clientSpan = clientExporter.spans[0];
+        const serverSpan = exporter.spans.find((span) => span.kind === "server");
+        assert.equal(clientSpan?.kind, "client");
+        assert.equal(clientSpan?.name, "GET /users/:id");
+        assert.equal(serverSpan?.traceId, clientSpan?.traceId);
+        assert.equal(serverSpan?.parentSpanId, clientSpan?.spanId);
+    });
+});
@@ -0,0 +1,205 @@
+export type SpanKind = "server" | "client" | "internal";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A timed phase of a request, ids are lower-case hex as in W3C trace context
+ */
+export interface Span {
+    name: string;
+    kind: SpanKind;
+    traceId: string;
+    spanId: string;
+    // undefined for the first span of a trace
+    parentSpanId: string | undefined;
+    // epoch milliseconds
+    startTime: number;
+    endTime: number;
+    attributes: SpanAttributes;
+    status: "ok" | "error";
+    // set when the phase threw
+    error?: unknown;
+}
+
+/**
+ * Receives the finished spans of each request, e.g. to send them to a collector
+ */
+export interface SpanExporter {
+    export(spans: Span[]): void | Promise<void>;
+}
+
+export interface InMemorySpanExporter extends SpanExporter {
+    // every span exported so far, in the order they finished
+    readonly spans: Span[];
+    reset(): void;
+}
+
+/**
+ * Exporter keeping spans in memory, for tests
+ */
+export function memoryExporter(): InMemorySpanExporter {
+    const spans: Span[] = [];
+    return {
+        spans,
+        export(finished) {
+            spans.push(...finished);
+        },
+        reset() {
+            spans.length = 0;
+        },
+    };
+}
+
+export interface TracingOptions {
+    exporter: SpanExporter;
+}
+
+/**
+ * Position in a trace, as carried by a `traceparent` header
+ */
+export interface TraceContext {
+    traceId: string;
+    spanId: string;
+    sampled: boolean;
+}
+
+// epoch milliseconds, with the sub-millisecond precision of the performance clock
+function now() {
+    return performance.timeOrigin + performance.now();
+}
+
+function randomHex(bytes: number): string {
+    const values = globalThis.crypto.getRandomValues(new Uint8Array(bytes));
+    return Array.from(values, (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+export function randomTraceId() {
+    return randomHex(16);
+}
+
+export function randomSpanId() {
+    return randomHex(8);
+}
+
+/**
+ * Parse a W3C `traceparent` header, e.g. "00-<trace id>-<parent id>-01"
+ * Returns undefined for malformed headers, the trace then starts over
+ */
+export function parseTraceparent(header: string | undefined): TraceContext | undefined {
+    const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/.exec(header?.trim().toLowerCase() ?? "");
+    if (match === null) {
+        return undefined;
+    }
+    const [, version, traceId, spanId, flags, rest] = match as unknown as [string, string, string, string, string, string | undefined];
+    // version ff is invalid, and version 00 has no trailing fields
+    if (version === "ff" || (version === "00" && rest !== undefined) || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+        return undefined;
+    }
+    return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+/**
+ * Export spans without letting exporter failures reach the request
+ */
+export function exportSpans(exporter: SpanExporter, spans: Span[]) {
+    try {
+        void Promise.resolve(exporter.export(spans)).catch((error) => console.error(error));
+    } catch (error) {
+        console.error(error);
+    }
+}
+
+/**
+ * Records the spans of one request: a root span and a child span per phase
+ */
+export class RequestTracer {
+    readonly root: Span;
+    private readonly spans: Span[] = [];
+    // added to every span when the trace ends, e.g. the route once it is known
+    private readonly shared: SpanAttributes = {};
+
+    constructor(
+        name: string,
+        kind: SpanKind,
+        private readonly parent: TraceContext | undefined
+    ) {
+        this.root = this.start(name, kind, parent?.spanId);
+    }
+
+    get sampled() {
+        return this.parent?.sampled ?? true;
+    }
+
+    // traceparent to hand to downstream requests
+    get traceparent() {
+        return formatTraceparent({ traceId: this.root.traceId, spanId: this.root.spanId, sampled: this.sampled });
+    }
+
+    setAttributes(attributes: SpanAttributes) {
+        Object.assign(this.shared, attributes);
+    }
+
+    /**
+     * Run a phase in a child span of the root, ending it when the phase settles
+     */
+    span<T>(name: string, attributes: SpanAttributes, run: (span: Span) => T): T {
+        const span = this.start(name, "internal", this.root.spanId);
+        Object.assign(span.attributes, attributes);
+        try {
+            const result = run(span);
+            if (result instanceof Promise) {
+                return result.then(
+                    (value) => {
+                        this.finish(span);
+                        return value;
+                    },
+                    (error) => {
+                        this.finish(span, error);
+                        throw error;
+                    }
+                ) as T;
+            }
+            this.finish(span);
+            return result;
+        } catch (error) {
+            this.finish(span, error);
+            throw error;
+        }
+    }
+
+    /**
+     * End the root span, returning every span of the request
+     */
+    end(status: Span["status"] = "ok"): Span[] {
+        this.root.status = status;
+        this.finish(this.root);
+        return this.spans.map((span) => ({ ...span, attributes: { ...this.shared, ...span.attributes } }));
+    }
+
+    private start(name: string, kind: SpanKind, parentSpanId: string | undefined): Span {
+        return {
+            name,
+            kind,
+            traceId: this.parent?.traceId ?? this.root?.traceId ?? randomTraceId(),
+            spanId: randomSpanId(),
+            parentSpanId,
+            startTime: now(),
+            endTime: now(),
+            attributes: {},
+            status: "ok",
+        };
+    }
+
+    private finish(span: Span, error?: unknown) {
+        span.endTime = now();
+        if (error !== undefined) {
+            span.status = "error";
+            span.error = error;
+        }
+        this.spans.push(span);
+    }
+}
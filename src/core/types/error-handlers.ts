@@ -1,29 +1,50 @@
 import { JsonResponse } from "../json-response";
-import express from "express";
+import { XPRVRequest } from "../xprv-request";
 import { ZodError } from "zod";
+import { BodyParseError } from "../body-parser";
 
 
 export type InternalServerErrorHandler<TResponse extends JsonResponse<any, any, any>> = (
     error: unknown,
-    req: express.Request,
-    res: express.Response
+    request: XPRVRequest
 ) => TResponse;
 
 export type NotFoundHandler<TResponse extends JsonResponse<any, any, any>> = (
-    req: express.Request,
-    res: express.Response
+    request: XPRVRequest
 ) => TResponse;
 
 export type MethodNotAllowedHandler<TResponse extends JsonResponse<any, any, any>> = (
-    req: express.Request,
-    res: express.Response
+    request: XPRVRequest
 ) => TResponse;
 
-export type ValidationErrorHandler<TResponse extends JsonResponse<any, any, any>> = (
-    where: "headers" | "query" | "params" | "body",
+export type ValidationLocation = "headers" | "query" | "params" | "body";
+
+/**
+ * How input validation failures are reported
+ * - "first": `onValidationError` gets the first failing location, in headers, query, params, body order
+ * - "all": `onValidationError` gets every failing location at once, issue paths start with their location
+ */
+export type ValidationMode = "first" | "all";
+
+export type ValidationErrorLocation<TMode extends ValidationMode> =
+    TMode extends "all" ? ValidationLocation[] : ValidationLocation;
+
+export type ValidationErrorHandler<
+    TResponse extends JsonResponse<any, any, any>,
+    TMode extends ValidationMode = ValidationMode
+> = (
+    where: ValidationErrorLocation<TMode>,
     error: ZodError,
-    req: express.Request,
-    res: express.Response
+    request: XPRVRequest
+) => TResponse;
+
+
+/**
+ * Called when the request body is malformed or exceeds the body parser limit
+ */
+export type BodyParseErrorHandler<TResponse extends JsonResponse<any, any, any>> = (
+    error: BodyParseError,
+    request: XPRVRequest
 ) => TResponse;
 
 
@@ -33,10 +54,13 @@ export type ErrorHandlers<
     TInternal extends JsonResponse<any, any, any> = JsonResponse<any, any, any>, 
     TNotFound extends JsonResponse<any, any, any> = JsonResponse<any, any, any>, 
     TMethodNotAllowed extends JsonResponse<any, any, any> = JsonResponse<any, any, any>, 
-    TValidationError extends JsonResponse<any, any, any> = JsonResponse<any, any, any>
+    TValidationError extends JsonResponse<any, any, any> = JsonResponse<any, any, any>,
+    TMode extends ValidationMode = ValidationMode,
+    TBodyParseError extends JsonResponse<any, any, any> = JsonResponse<any, any, any>
 > = {
     onInternalServerError: InternalServerErrorHandler<TInternal>;
     onNotFound: NotFoundHandler<TNotFound>;
     onMethodNotAllowed: MethodNotAllowedHandler<TMethodNotAllowed>;
-    onValidationError: ValidationErrorHandler<TValidationError>;
+    onValidationError: ValidationErrorHandler<TValidationError, TMode>;
+    onBodyParseError: BodyParseErrorHandler<TBodyParseError>;
 }
\ No newline at end of file
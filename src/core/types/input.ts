@@ -7,9 +7,10 @@ export interface JsonRequest<THeaders, TParams, TQuery, TBody> {
     body: TBody;
 }
 
+// typed by the schema output, so coercing and transforming schemas are accepted
 export interface JsonSchemas<THeaders, TParams, TQuery, TBody> {
-    headers: z.ZodSchema<THeaders,THeaders>;
-    params: z.ZodSchema<TParams,TParams>;
-    query: z.ZodSchema<TQuery,TQuery>;
-    body: z.ZodSchema<TBody,TBody>;
+    headers: z.ZodSchema<THeaders, unknown>;
+    params: z.ZodSchema<TParams, unknown>;
+    query: z.ZodSchema<TQuery, unknown>;
+    body: z.ZodSchema<TBody, unknown>;
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+import z from "zod";
+import { JsonResponse } from "../json-response";
+import { NonJsonResponse } from "../non-json-response";
+
+// a zod schema per response status
+export type JsonOutputSchemas = { [status: number]: z.ZodType };
+
+/**
+ * Responses a handler may return once outputs are declared
+ * Statuses must be declared and bodies must satisfy the schema input,
+ * non-JSON responses are not checked
+ */
+export type DeclaredOutputResponse<TOutput extends JsonOutputSchemas> = {
+    [S in keyof TOutput & number]: JsonResponse<S, z.input<TOutput[S]>, any>
+}[keyof TOutput & number] | NonJsonResponse;
+
+/**
+ * Replace the body of each returned response with its schema output
+ * so fields stripped at runtime never show up in the client or OpenAPI types
+ */
+export type DeclaredResponse<TResponse, TOutput extends JsonOutputSchemas> =
+    TResponse extends NonJsonResponse
+        ? TResponse
+        : TResponse extends JsonResponse<infer S, any, infer H>
+            ? S extends keyof TOutput
+                ? JsonResponse<S, z.output<TOutput[S]>, H>
+                : never
+            : never;
+
+/**
+ * Constraint on what a handler may return, unrestricted without declared outputs
+ */
+export type HandlerResponseConstraint<TOutput> = TOutput extends JsonOutputSchemas
+    ? DeclaredOutputResponse<TOutput>
+    : JsonResponse<any, any, any>;
+
+/**
+ * The response type a handler exposes, given what it returns
+ */
+export type HandlerResponse<TResponse, TOutput> = TOutput extends JsonOutputSchemas
+    ? DeclaredResponse<TResponse, TOutput>
+    : TResponse;
+
+/**
+ * What to do when a response does not match its declared output schema
+ * - "log": report the mismatch to the `onOutputMismatch` hook and send the response as returned
+ * - "error": send the response from `onInternalServerError` instead
+ * - "passthrough": send the response as returned
+ */
+export type OutputMismatchPolicy = "log" | "error" | "passthrough";
@@ -0,0 +1,63 @@
+import { JsonRequest } from "./input";
+
+/**
+ * Utility type to join two path segments
+ * Handles edge cases like root path "/" and empty base path, ensures proper path formatting
+ */
+export type JoinPaths<TParent extends string, TChild extends string> =
+    TParent extends ""
+        ? TChild
+        : TParent extends "/"
+            ? TChild
+            : TChild extends "/"
+                ? TParent
+                : `${TParent}${TChild}`;
+
+type Characters<TValue extends string> =
+    TValue extends `${infer THead}${infer TRest}` ? THead | Characters<TRest> : never;
+
+type Letter = Characters<"abcdefghijklmnopqrstuvwxyz">;
+type IdentifierStart = Letter | Uppercase<Letter> | "_" | "$";
+type IdentifierPart = IdentifierStart | Characters<"0123456789">;
+
+type TakeIdentifier<TValue extends string, TName extends string> =
+    TValue extends `${infer THead}${infer TRest}`
+        ? THead extends IdentifierPart ? TakeIdentifier<TRest, `${TName}${THead}`> : TName
+        : TName;
+
+// a parameter name is a JavaScript identifier, as matched by `pathParamPattern` at runtime
+type ParamName<TValue extends string> =
+    TValue extends `${infer THead}${infer TRest}`
+        ? THead extends IdentifierStart ? TakeIdentifier<TRest, THead> : never
+        : never;
+
+/**
+ * Names of the parameters declared in a path
+ *
+ * @example
+ * ```typescript
+ * type Names = PathParamNames<"/orgs/:orgId/users/:userId">;
+ * // "orgId" | "userId"
+ * ```
+ */
+export type PathParamNames<TPath extends string> =
+    TPath extends `${string}:${infer TRest}`
+        ? ParamName<TRest> | PathParamNames<TRest>
+        : never;
+
+/**
+ * Params object for a path, values are the raw strings Express provides
+ */
+export type PathParams<TPath extends string> = {
+    [K in PathParamNames<TPath>]: string;
+};
+
+/**
+ * Request typed with only the params inferred from a path
+ */
+export type PathParamsRequest<TPath extends string> = JsonRequest<
+    unknown,
+    [PathParamNames<TPath>] extends [never] ? unknown : PathParams<TPath>,
+    unknown,
+    unknown
+>;
@@ -0,0 +1,46 @@
+import { JsonResponse } from "../json-response";
+import { MergeContext } from "../json-middleware";
+import { JsonRequest } from "./input";
+
+/**
+ * What a node passes down to its descendants at the type level:
+ * its full path, the validated node inputs, the guard context and the guard responses
+ */
+export interface JsonRouteScopeTypes {
+    path: string;
+    input: JsonRequest<unknown, unknown, unknown, unknown>;
+    context: {};
+    response: JsonResponse<any, any, any>;
+}
+
+/**
+ * Scope of handlers and nodes that are not nested in a scoped node
+ */
+export interface RootScopeTypes {
+    path: "";
+    input: JsonRequest<unknown, unknown, unknown, unknown>;
+    context: {};
+    response: never;
+}
+
+type IsUnknown<T> = unknown extends T ? true : false;
+
+type MergeInputPart<TBase, TOverride> = IsUnknown<TBase> extends true
+    ? TOverride
+    : IsUnknown<TOverride> extends true
+        ? TBase
+        : MergeContext<TBase, TOverride>;
+
+/**
+ * Merge two requests location by location, keys of the override win
+ * Locations without a schema (unknown) are taken from the other side
+ */
+export type MergeRequest<
+    TBase extends JsonRequest<unknown, unknown, unknown, unknown>,
+    TOverride extends JsonRequest<unknown, unknown, unknown, unknown>
+> = JsonRequest<
+    MergeInputPart<TBase['headers'], TOverride['headers']>,
+    MergeInputPart<TBase['params'], TOverride['params']>,
+    MergeInputPart<TBase['query'], TOverride['query']>,
+    MergeInputPart<TBase['body'], TOverride['body']>
+>;
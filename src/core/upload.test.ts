@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { BodyParsers } from "./body-parser";
+
+function postForm(app: { fetch(request: Request): Promise<Response> }, path: string, form: FormData) {
+    return app.fetch(new Request(`http://xprv.test${path}`, { method: "POST", body: form }));
+}
+
+// the form sent as a stream, without the content-length header a client may omit
+function postStreamedForm(app: { fetch(request: Request): Promise<Response> }, path: string, form: FormData) {
+    const encoded = new Request("http://xprv.test", { method: "POST", body: form });
+    return app.fetch(new Request(`http://xprv.test${path}`, {
+        method: "POST",
+        headers: { "content-type": encoded.headers.get("content-type") ?? "" },
+        body: encoded.body,
+        duplex: "half",
+    } as RequestInit));
+}
+
+function file(size: number, type = "image/png") {
+    return new Blob([new Uint8Array(size)], { type });
+}
+
+describe("file uploads", () => {
+    const upload = (parsers: BodyParsers = {}) => xprv.handler
+        .withBodyParsers(parsers)
+        .withInput({
+            body: z.object({ title: z.string() }),
+            files: { cover: xprv.upload.single({ maxSize: 1_000, mimeTypes: ["image/*"] }) },
+        })
+        .handle(async ({ body }) => xprv.json({
+            status: 201,
+            body: { title: body.title, filename: body.cover.filename, size: body.cover.size },
+        }));
+    const app = xprv.app({
+        bodyParsers: { json: {}, multipart: { limit: "2kb" } },
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({ path: "uploads", handlers: { post: upload() } }),
+                xprv.node({
+                    path: "large",
+                    handlers: { post: upload({ multipart: { limit: "1mb" } }) },
+                }),
+            ],
+        }),
+    });
+
+    it("parses files next to text fields", async () => {
+        const form = new FormData();
+        form.append("title", "Hello");
+        form.append("cover", file(500), "cover.png");
+
+        const response = await postForm(app, "/uploads", form);
+        assert.equal(response.status, 201);
+        assert.deepEqual(await response.json(), { title: "Hello", filename: "cover.png", size: 500 });
+    });
+
+    it("rejects files breaking a rule through validation", async () => {
+        const form = new FormData();
+        form.append("title", "Hello");
+        form.append("cover", file(500, "text/plain"), "cover.txt");
+
+        const response = await postForm(app, "/uploads", form);
+        assert.equal(response.status, 400);
+    });
+
+    it("answers 413 for a body over the limit", async () => {
+        const form = new FormData();
+        form.append("title", "Hello");
+        form.append("cover", file(10_000), "cover.png");
+
+        const response = await postForm(app, "/uploads", form);
+        assert.equal(response.status, 413);
+    });
+
+    it("answers 413 once a streamed body outgrows the limit", async () => {
+        const form = new FormData();
+        form.append("title", "Hello");
+        form.append("cover", file(10_000), "cover.png");
+
+        const response = await postStreamedForm(app, "/uploads", form);
+        assert.equal(response.status, 413);
+    });
+
+    it("takes the limit of the handler over the app's", async () => {
+        const form = new FormData();
+        form.append("title", "Hello");
+        form.append("cover", file(10_000), "cover.png");
+
+        // over the app limit, within the handler's, then rejected by the file rule
+        const response = await postForm(app, "/large", form);
+        assert.equal(response.status, 400);
+    });
+});
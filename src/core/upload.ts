@@ -0,0 +1,134 @@
+import z from "zod";
+import { BodyParseError, ByteLimit, limitBody, parseByteLimit } from "./body-parser";
+import type { XPRVRequest } from "./xprv-request";
+
+/**
+ * A file received in a multipart/form-data body
+ * Uploads are buffered in memory
+ */
+export interface UploadedFile {
+    readonly filename: string;
+    readonly mimeType: string;
+    readonly size: number;
+    readonly buffer: Buffer;
+}
+
+export interface UploadOptions {
+    // maximum size of each file in bytes
+    maxSize?: number;
+    // accepted MIME types, `image/*` accepts any image
+    mimeTypes?: readonly string[];
+}
+
+export interface UploadArrayOptions extends UploadOptions {
+    minCount?: number;
+    maxCount?: number;
+}
+
+// a zod schema per file field of a multipart/form-data body
+export type UploadSchemas = {
+    [field: string]: z.ZodType<UploadedFile | UploadedFile[] | undefined, unknown>;
+};
+
+type IsOptionalUpload<TSchema extends z.ZodType> = undefined extends z.output<TSchema> ? true : false;
+
+/**
+ * The files a handler receives, keyed by field name
+ */
+export type UploadedFiles<TUploads extends UploadSchemas> = {
+    [K in keyof TUploads as IsOptionalUpload<TUploads[K]> extends true ? never : K]: z.output<TUploads[K]>;
+} & {
+    [K in keyof TUploads as IsOptionalUpload<TUploads[K]> extends true ? K : never]?: z.output<TUploads[K]>;
+};
+
+export function isUploadedFile(value: unknown): value is UploadedFile {
+    return typeof value === "object"
+        && value !== null
+        && typeof (value as UploadedFile).filename === "string"
+        && Buffer.isBuffer((value as UploadedFile).buffer);
+}
+
+function matchesMimeType(mimeType: string, accepted: readonly string[]) {
+    return accepted.some((pattern) => pattern.endsWith("/*")
+        ? mimeType.startsWith(pattern.slice(0, -1))
+        : mimeType === pattern);
+}
+
+function fileSchema(options: UploadOptions) {
+    return z.custom<UploadedFile>(isUploadedFile, { message: "Expected a file" })
+        .refine(
+            (file) => options.maxSize === undefined || file.size <= options.maxSize,
+            { message: `File exceeds the maximum size of ${options.maxSize} bytes` }
+        )
+        .refine(
+            (file) => options.mimeTypes === undefined || matchesMimeType(file.mimeType, options.mimeTypes),
+            { message: `File type must be one of ${options.mimeTypes?.join(", ")}` }
+        );
+}
+
+/**
+ * Schemas for the file fields of `withInput({ files })`
+ *
+ * @example
+ * ```typescript
+ * xprv.handler.withInput({
+ *   body: z.object({ title: z.string() }),
+ *   files: {
+ *     cover: xprv.upload.single({ maxSize: 5_000_000, mimeTypes: ["image/*"] }),
+ *     attachments: xprv.upload.array({ maxCount: 10 }),
+ *   },
+ * })
+ * ```
+ */
+export const upload = {
+    // exactly one file
+    single: (options: UploadOptions = {}) => fileSchema(options),
+    // zero or one file
+    optional: (options: UploadOptions = {}) => fileSchema(options).optional(),
+    // any number of files, a single file is received as an array of one
+    array: (options: UploadArrayOptions = {}) => z.preprocess(
+        (value) => value === undefined ? [] : Array.isArray(value) ? value : [value],
+        z.array(fileSchema(options))
+            .min(options.minCount ?? 0)
+            .max(options.maxCount ?? Infinity)
+    ),
+};
+
+export function isMultipartRequest(request: XPRVRequest) {
+    return /^multipart\/form-data\b/i.test(request.get("content-type") ?? "");
+}
+
+/**
+ * Parse a multipart/form-data request into a body object
+ * Files become UploadedFile values, repeated fields become arrays
+ * Throws a BodyParseError when the body is malformed, or as soon as it outgrows the limit
+ */
+export async function parseMultipart(request: Request, limit: ByteLimit = "10mb"): Promise<Record<string, unknown>> {
+    let form: FormData;
+    try {
+        form = await limitBody(request, parseByteLimit(limit), "multipart").formData();
+    } catch (error) {
+        if (error instanceof BodyParseError) {
+            throw error;
+        }
+        throw new BodyParseError("multipart", "malformed", "Malformed multipart/form-data body");
+    }
+
+    const body: Record<string, unknown> = {};
+    for (const [field, entry] of form.entries()) {
+        const value = typeof entry === "string"
+            ? entry
+            : {
+                filename: entry.name,
+                mimeType: entry.type || "application/octet-stream",
+                size: entry.size,
+                buffer: Buffer.from(await entry.arrayBuffer()),
+            } satisfies UploadedFile;
+
+        const existing = body[field];
+        body[field] = existing === undefined
+            ? value
+            : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+    return body;
+}
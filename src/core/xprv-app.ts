@@ -1,20 +1,32 @@
 import { JsonRouteNode } from "./json-route-node";
 import { JsonResponse } from "./json-response";
-import { buildRouter } from "./xprv-express";
+import { createExpressRouter, createMetricsRouter } from "./xprv-express";
+import { createDispatch } from "./xprv-dispatch";
+import { createNodeListener, XPRVDispatch } from "./xprv-node";
+import { XPRVRequestOptions } from "./xprv-request";
 import {
 	defaultOnInternalServerError,
 	defaultOnNotFound,
 	defaultOnMethodNotAllowed,
 	defaultOnValidationError,
+	defaultOnBodyParseError,
 } from "./xprv-default-error-handlers";
-import express from "express";
 import {
+	BodyParseErrorHandler,
 	ErrorHandlers,
 	InternalServerErrorHandler,
 	MethodNotAllowedHandler,
 	NotFoundHandler,
 	ValidationErrorHandler,
+	ValidationMode,
 } from "./types/error-handlers";
+import { OutputMismatchPolicy } from "./types/output";
+import { BodyParsers, defaultBodyParsers } from "./body-parser";
+import { assertCorsPolicy, CorsPolicy } from "./cors";
+import { XPRVHooks } from "./hooks";
+import { TracingOptions } from "./tracing";
+import { MetricsOptions, MetricsRegistry } from "./metrics";
+import { QueryCodec, queryCodec, QueryCodecOptions } from "./query-codec";
 
 // The default types for the error handlers should be derived from the default error handlers
 
@@ -29,11 +41,33 @@ export interface XPRVAppOptions<
 	TNotFound extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnNotFound>,
 	TMethodNotAllowed extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnMethodNotAllowed>,
 	TValidationError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnValidationError>,
+	TValidationMode extends ValidationMode = "first",
+	TBodyParseError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnBodyParseError>,
 	> {
 	rootNode: TRootNode;
 	errorHandlers?: Partial<
-		ErrorHandlers<TInternal, TNotFound, TMethodNotAllowed, TValidationError>
+		ErrorHandlers<TInternal, TNotFound, TMethodNotAllowed, TValidationError, TValidationMode, TBodyParseError>
 	>;
+	// report only the first failing input location or all of them at once
+	// defaults to "first"
+	validationMode?: TValidationMode;
+	// what to do when a response does not match the handler's declared outputs
+	// defaults to "error"
+	outputValidation?: OutputMismatchPolicy;
+	// body parsers of every handler, handlers override them with `withBodyParsers`
+	// defaults to JSON only, with a "100kb" limit
+	bodyParsers?: BodyParsers;
+	// CORS policy of every route, nodes override it with their own `cors`
+	cors?: CorsPolicy;
+	// lifecycle hooks, e.g. for access logs
+	hooks?: XPRVHooks;
+	// record a span per request phase, off by default
+	tracing?: TracingOptions;
+	// count requests, latencies and validation failures per route, off by default
+	metrics?: boolean | MetricsOptions;
+	// how query strings encode arrays, give clients the same options
+	// defaults to repeated keys, e.g. `tags=a&tags=b`
+	query?: QueryCodecOptions;
 }
 
 export class XPRVApp<
@@ -42,14 +76,28 @@ export class XPRVApp<
 	TNotFound extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnNotFound>,
 	TMethodNotAllowed extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnMethodNotAllowed>,
 	TValidationError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnValidationError>,
+	TValidationMode extends ValidationMode = "first",
+	TBodyParseError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnBodyParseError>,
 > {
 	rootNode: TRootNode;
 	errorHandlers: ErrorHandlers<
 		TInternal,
 		TNotFound,
 		TMethodNotAllowed,
-		TValidationError
+		TValidationError,
+		TValidationMode,
+		TBodyParseError
 	>;
+	outputValidation: OutputMismatchPolicy;
+	validationMode: TValidationMode;
+	bodyParsers: BodyParsers;
+	cors: CorsPolicy | undefined;
+	hooks: XPRVHooks;
+	tracing: TracingOptions | undefined;
+	// set when the `metrics` option is on
+	metrics: MetricsRegistry | undefined;
+	query: QueryCodec;
+	private readonly dispatch: XPRVDispatch;
 
 	constructor(
 		options: XPRVAppOptions<
@@ -57,7 +105,9 @@ export class XPRVApp<
 			TInternal,
 			TNotFound,
 			TMethodNotAllowed,
-			TValidationError
+			TValidationError,
+			TValidationMode,
+			TBodyParseError
 		>
 	) {
 		this.rootNode = options.rootNode;
@@ -72,21 +122,70 @@ export class XPRVApp<
 			onValidationError:
 				options.errorHandlers?.onValidationError ??
 				defaultOnValidationError as ValidationErrorHandler<TValidationError>,
+			onBodyParseError:
+				options.errorHandlers?.onBodyParseError ??
+				defaultOnBodyParseError as BodyParseErrorHandler<TBodyParseError>,
 		};
+		this.outputValidation = options.outputValidation ?? "error";
+		this.validationMode = options.validationMode ?? "first" as TValidationMode;
+		this.bodyParsers = options.bodyParsers ?? defaultBodyParsers;
+		assertCorsPolicy(options.cors);
+		this.cors = options.cors;
+		this.hooks = options.hooks ?? {};
+		this.tracing = options.tracing;
+		this.metrics = options.metrics === true
+			? new MetricsRegistry()
+			: options.metrics ? new MetricsRegistry(options.metrics) : undefined;
+		this.query = queryCodec(options.query);
+		this.dispatch = createDispatch({
+			rootNode: this.rootNode,
+			// `where` is a list exactly when the mode is "all"
+			errorHandlers: this.errorHandlers as ErrorHandlers,
+			outputValidation: this.outputValidation,
+			validationMode: this.validationMode,
+			bodyParsers: this.bodyParsers,
+			cors: this.cors,
+			hooks: this.hooks,
+			tracing: this.tracing,
+			metrics: this.metrics,
+			query: this.query,
+		});
 	}
 
-  buildRouter(){
-    const router = express.Router();
-    router.use(express.json());
-    router.use(this.rootNode.path,buildRouter({
-      rootNode: this.rootNode,
-      errorHandlers: this.errorHandlers,
-    }));
-    router.use((req, res, next) => {
-			res.status(404).json(this.errorHandlers.onNotFound(req, res).body);
-		});
-    return router;
-  }
+	/**
+	 * Handle a fetch Request, for runtimes serving the fetch API
+	 * (Bun, Deno, Cloudflare Workers, ...) or to call the app in process
+	 */
+	fetch = (request: Request): Promise<Response> => this.dispatch(request);
+
+	/**
+	 * Handle a fetch Request routed at `options.path` instead of its URL pathname,
+	 * e.g. when the app is mounted under a prefix
+	 */
+	dispatchRequest(request: Request, options?: XPRVRequestOptions): Promise<Response> {
+		return this.dispatch(request, options);
+	}
+
+	// Express adapter
+	buildRouter() {
+		return createExpressRouter(this.dispatch);
+	}
+
+	// listener for `http.createServer`
+	nodeListener() {
+		return createNodeListener(this.dispatch);
+	}
+
+	/**
+	 * Express router serving the app's metrics in the Prometheus text format, e.g.
+	 * `expressApp.use("/metrics", xprvApp.metricsRouter())`
+	 */
+	metricsRouter() {
+		if (this.metrics === undefined) {
+			throw new Error("Metrics are off, turn them on with the `metrics` app option");
+		}
+		return createMetricsRouter(this.metrics);
+	}
 }
 
 export function app<
@@ -95,6 +194,8 @@ export function app<
 	TNotFound extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnNotFound>,
 	TMethodNotAllowed extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnMethodNotAllowed>,
 	TValidationError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnValidationError>,
->(options: XPRVAppOptions<TRootNode, TInternal, TNotFound, TMethodNotAllowed, TValidationError>) {
-	return new XPRVApp<TRootNode, TInternal, TNotFound, TMethodNotAllowed, TValidationError>(options);
+	TValidationMode extends ValidationMode = "first",
+	TBodyParseError extends JsonResponse<any, any, any> = ReturnType<typeof defaultOnBodyParseError>,
+>(options: XPRVAppOptions<TRootNode, TInternal, TNotFound, TMethodNotAllowed, TValidationError, TValidationMode, TBodyParseError>) {
+	return new XPRVApp<TRootNode, TInternal, TNotFound, TMethodNotAllowed, TValidationError, TValidationMode, TBodyParseError>(options);
 }
\ No newline at end of file
@@ -1,12 +1,13 @@
 import { ZodError } from "zod";
 import { json, JsonResponse } from "./json-response";
-import { Request, Response } from "express";
+import { XPRVRequest } from "./xprv-request";
+import { ValidationLocation } from "./types/error-handlers";
+import { BodyParseError } from "./body-parser";
 
 
 const defaultOnInternalServerError= (
     error: unknown,
-    req: Request,
-    res: Response
+    request: XPRVRequest
 ) => {
     return json({
         status: 500,
@@ -17,8 +18,7 @@ const defaultOnInternalServerError= (
 }
 
 const defaultOnNotFound= (
-    req: Request,
-    res: Response
+    request: XPRVRequest
 ) => {
     return json({
         status: 404,
@@ -29,8 +29,7 @@ const defaultOnNotFound= (
 }
 
 const defaultOnMethodNotAllowed = (
-    req: Request,
-    res: Response
+    request: XPRVRequest
 ) => {
     return json({
         status: 405,
@@ -41,26 +40,50 @@ const defaultOnMethodNotAllowed = (
 }
 
 const defaultOnValidationError = (
-    where: "headers" | "query" | "params" | "body",
+    where: ValidationLocation | ValidationLocation[],
     error: ZodError,
-    req: Request,
-    res: Response
+    request: XPRVRequest
 ) => {
     return json({
         status: 400,
         body: {
             error: "Validation Error",
             details: error.issues.map(e => ({
-                path: [where, ...e.path.map(p => p.toString())],
+                // with every location reported at once, issue paths already start with it
+                path: (Array.isArray(where)
+                    ? e.path.map(p => p.toString())
+                    : [where, ...e.path.map(p => p.toString())]) as [ValidationLocation, ...string[]],
                 message: e.message
             }))
         }
     })
 }
 
+const defaultOnBodyParseError = (
+    error: BodyParseError,
+    request: XPRVRequest
+) => {
+    if (error.reason === "too-large") {
+        return json({
+            status: 413,
+            body: {
+                error: "Payload Too Large"
+            }
+        })
+    }
+    return json({
+        status: 400,
+        body: {
+            error: "Malformed Body",
+            message: error.message
+        }
+    })
+}
+
 export {
     defaultOnInternalServerError,
     defaultOnNotFound,
     defaultOnMethodNotAllowed,
-    defaultOnValidationError
+    defaultOnValidationError,
+    defaultOnBodyParseError
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import xprv from "../index";
+import { send, TestApp } from "../test-utils";
+
+describe("validation", () => {
+    const locations: unknown[] = [];
+    let guarded = 0;
+    const rootNode = xprv.node({
+        path: "/orgs/:orgId",
+        input: { params: z.object({ orgId: z.coerce.number() }) },
+        guard: async (request, input, context, next) => {
+            guarded++;
+            return next({});
+        },
+        handlers: (scope) => ({
+            post: scope.handler
+                .withInput({ body: z.object({ name: z.string() }) })
+                .handle(async () => xprv.json({ status: 201, body: { created: true } })),
+        }),
+    });
+    const post = (app: TestApp, path: string, body: unknown) =>
+        send(app, "POST", path, { headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
+
+    it("reports the first failing location by default", async () => {
+        const app = xprv.app({ rootNode });
+        const response = await post(app, "/orgs/acme", {});
+        assert.equal(response.status, 400);
+        const body = await response.json() as { details: { path: string }[] };
+        assert.equal(body.details.length, 1);
+    });
+
+    it("reports node and handler failures in one call in all mode", async () => {
+        guarded = 0;
+        const app = xprv.app({
+            rootNode,
+            validationMode: "all",
+            errorHandlers: {
+                onValidationError: (where, error) => {
+                    locations.push(where);
+                    return xprv.json({ status: 400, body: { paths: error.issues.map((issue) => issue.path.join(".")) } });
+                },
+            },
+        });
+        const response = await post(app, "/orgs/acme", {});
+
+        assert.equal(response.status, 400);
+        assert.deepEqual(await response.json(), { paths: ["params.orgId", "body.name"] });
+        assert.deepEqual(locations, [["params", "body"]]);
+        // the guard does not run on invalid input
+        assert.equal(guarded, 0);
+    });
+
+    it("passes valid input to the guard and handler in all mode", async () => {
+        guarded = 0;
+        const app = xprv.app({ rootNode, validationMode: "all" });
+        const response = await post(app, "/orgs/1", { name: "Acme" });
+        assert.equal(response.status, 201);
+        assert.equal(guarded, 1);
+    });
+});
+
+describe("HEAD and OPTIONS", () => {
+    let streamSignal: AbortSignal | undefined;
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "items",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.json({ status: 200, body: { items: [] } })),
+                        post: xprv.handler.handle(async () => xprv.json({ status: 201, body: {} })),
+                    },
+                }),
+                xprv.node({
+                    path: "events",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* ({ signal }) {
+                            streamSignal = signal;
+                            yield xprv.event({ data: "first" });
+                            await new Promise((resolve) => signal.addEventListener("abort", resolve));
+                        })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    it("answers HEAD with the GET handler's status and headers, without a body", async () => {
+        const response = await send(app, "HEAD", "/items");
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get("content-type") ?? "", /application\/json/);
+        assert.equal(await response.text(), "");
+    });
+
+    it("cancels the body built by the GET handler", async () => {
+        const response = await send(app, "HEAD", "/events");
+        assert.equal(response.status, 200);
+        assert.equal(await response.text(), "");
+        assert.equal(streamSignal?.aborted, true);
+    });
+
+    it("answers OPTIONS with the allowed methods", async () => {
+        const response = await send(app, "OPTIONS", "/items");
+        assert.equal(response.status, 204);
+        assert.deepEqual(response.headers.get("allow")?.split(", ").sort(), ["GET", "HEAD", "OPTIONS", "POST"]);
+    });
+
+    it("answers other methods with 405 and the allowed methods", async () => {
+        const response = await send(app, "DELETE", "/items");
+        assert.equal(response.status, 405);
+        assert.match(response.headers.get("allow") ?? "", /POST/);
+    });
+});
+
+describe("routing", () => {
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/files/:name.:ext",
+                    handlers: (scope) => ({
+                        get: scope.handler.handle(async ({ params }) => xprv.json({
+                            status: 200,
+                            body: { name: params.name, ext: params.ext },
+                        })),
+                    }),
+                }),
+            ],
+        }),
+    });
+
+    it("captures several params of a segment", async () => {
+        const response = await send(app, "GET", "/files/report.pdf");
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { name: "report", ext: "pdf" });
+    });
+
+    it("answers unknown paths with 404", async () => {
+        const response = await send(app, "GET", "/missing");
+        assert.equal(response.status, 404);
+    });
+
+    it("rejects a path repeating a param when the node is created", () => {
+        assert.throws(
+            () => xprv.node({ path: "/users/:id/friends/:id" }),
+            /declares the param ":id" more than once/
+        );
+    });
+
+    it("answers errors thrown while routing through onInternalServerError", async (t) => {
+        t.mock.method(console, "error", () => {});
+        const broken = xprv.node({ path: "/broken" });
+        // a path changed after the node was created is not checked again
+        (broken as { path: string }).path = "/broken/:id/:id";
+        const errors: unknown[] = [];
+        const brokenApp = xprv.app({ rootNode: broken, hooks: { onError: ({ error }) => { errors.push(error); } } });
+
+        const response = await send(brokenApp, "GET", "/broken/1/2");
+        assert.equal(response.status, 500);
+        assert.equal(errors.length, 1);
+    });
+});
+
+describe("error handlers", () => {
+    const rootNode = xprv.node({
+        path: "/",
+        handlers: {
+            get: xprv.handler.handle(async () => {
+                throw new Error("boom");
+            }),
+        },
+    });
+
+    it("call onInternalServerError with the error and the request", async () => {
+        const seen: [unknown, string][] = [];
+        const app = xprv.app({
+            rootNode,
+            errorHandlers: {
+                onInternalServerError: (error, request) => {
+                    seen.push([error, request.path]);
+                    return xprv.json({ status: 500, body: { message: "Internal server error" } });
+                },
+            },
+        });
+        const response = await send(app, "GET", "/");
+        assert.equal(response.status, 500);
+        assert.equal((seen[0]?.[0] as Error).message, "boom");
+        assert.equal(seen[0]?.[1], "/");
+    });
+
+    it("accept an onInternalServerError taking only the error", async () => {
+        const app = xprv.app({
+            rootNode,
+            errorHandlers: {
+                onInternalServerError: (error) => xprv.json({ status: 503, body: { message: String(error) } }),
+            },
+        });
+        const response = await send(app, "GET", "/");
+        assert.equal(response.status, 503);
+        assert.deepEqual(await response.json(), { message: "Error: boom" });
+    });
+});
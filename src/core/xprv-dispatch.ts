@@ -0,0 +1,705 @@
+import z from "zod";
+import { JsonRouteNode } from "./json-route-node";
+import { JsonRouteHandler } from "./json-route-handler";
+import { isJsonResponse, JsonResponse } from "./json-response";
+import { HttpMethod } from "./types/http";
+import { JsonRequest } from "./types/input";
+import { OutputMismatchPolicy } from "./types/output";
+import { ErrorHandlers, ValidationLocation, ValidationMode } from "./types/error-handlers";
+import { isMiddlewareNext, next as continueWith, runMiddlewares } from "./json-middleware";
+import { applyOutputSchemas, OutputValidationError } from "./output-validation";
+import { isHttpError } from "./http-error";
+import { isMultipartRequest, parseMultipart } from "./upload";
+import { BodyParseError, BodyParsers, mergeBodyParsers, parseBody } from "./body-parser";
+import { applyCors, CorsPolicy, isPreflightRequest } from "./cors";
+import { createXPRVRequest, XPRVRequest, XPRVRequestOptions } from "./xprv-request";
+import { toFetchResponse } from "./xprv-response";
+import { callHook, HookInput, RequestHookEvent, XPRVHooks } from "./hooks";
+import { MetricsRegistry } from "./metrics";
+import { exportSpans, parseTraceparent, RequestTracer, Span, SpanAttributes, TracingOptions } from "./tracing";
+import { QueryCodec } from "./query-codec";
+import { pathParamPattern } from "./path-params";
+
+const inputLocations = ["headers", "query", "params", "body"] as const;
+
+/**
+ * App-wide settings shared by every node and handler
+ */
+export interface DispatchSettings {
+	errorHandlers: ErrorHandlers;
+	outputValidation: OutputMismatchPolicy;
+	validationMode: ValidationMode;
+	bodyParsers: BodyParsers;
+	cors: CorsPolicy | undefined;
+	hooks: XPRVHooks;
+	tracing: TracingOptions | undefined;
+	metrics: MetricsRegistry | undefined;
+	query: QueryCodec;
+}
+
+/**
+ * Validated node inputs and guard context, passed down to descendant handlers
+ */
+interface JsonRouteScopeState {
+	input: Partial<JsonRequest<unknown, unknown, unknown, unknown>>;
+	context: object;
+	// set when the context is overridden for the whole request
+	fixed?: true;
+	// node validation failures kept for the handler's in "all" mode
+	failures?: ValidationFailure[];
+}
+
+/**
+ * What the hooks are told about a request, filled in as it is handled
+ */
+interface RequestTrace {
+	event: RequestHookEvent;
+	// performance.now() at the start, for durations
+	start: number;
+	input?: HookInput;
+	response?: JsonResponse<any, any, any>;
+	errors: unknown[];
+	// set once the response has been handed back, later errors are reported right away
+	done: boolean;
+	// set when tracing is on
+	tracer?: RequestTracer;
+}
+
+interface ValidationFailure {
+	where: ValidationLocation;
+	error: z.ZodError;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// objects are merged key by key with the override winning, anything else is replaced
+function mergeInputPart(base: unknown, override: unknown): unknown {
+	if (override === undefined) {
+		return base;
+	}
+	if (isPlainObject(base) && isPlainObject(override)) {
+		return { ...base, ...override };
+	}
+	return override;
+}
+
+/**
+ * A node matched by a request path, with the params captured up to it
+ */
+interface MatchedNode {
+	node: JsonRouteNode<any, any, any>;
+	params: Record<string, string>;
+}
+
+/**
+ * Nodes matched by a request path, outermost first,
+ * and the handler for the request method (undefined when the method is not allowed)
+ */
+interface MatchedRoute {
+	nodes: MatchedNode[];
+	handler: JsonRouteHandler<any, any, any> | undefined;
+	// HEAD responses are sent without their body
+	head: boolean;
+	// methods of the matched node, for the Allow header and CORS preflights
+	methods: string[];
+}
+
+/**
+ * Methods a node answers, HEAD is derived from GET and OPTIONS is always answered
+ */
+function allowedMethods(handlers: Partial<Record<HttpMethod, unknown>>): string[] {
+	const methods = Object.keys(handlers).map((method) => method.toUpperCase());
+	if (handlers.get !== undefined && handlers.head === undefined) {
+		methods.push("HEAD");
+	}
+	if (handlers.options === undefined) {
+		methods.push("OPTIONS");
+	}
+	return methods;
+}
+
+const compiledPaths = new Map<string, RegExp>();
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a node path to a case-insensitive prefix matcher
+ * `:name` captures up to the next "/", or the next literal character of the segment
+ */
+function compilePath(path: string): RegExp {
+	const cached = compiledPaths.get(path);
+	if (cached !== undefined) {
+		return cached;
+	}
+	const segments = path.split("/").filter((segment) => segment !== "");
+	const source = segments.map((segment) =>
+		// split keeps the captured param names at odd indexes
+		"/" + segment.split(pathParamPattern).map((part, index) =>
+			index % 2 === 1 ? `(?<${part}>[^/]+?)` : escapeRegExp(part)
+		).join("")
+	).join("");
+	const compiled = new RegExp(`^${source}(?=/|$)`, "i");
+	compiledPaths.set(path, compiled);
+	return compiled;
+}
+
+/**
+ * Match a node path against the start of a request path
+ * Returns the captured params and the rest of the path
+ */
+function matchPath(nodePath: string, path: string): { params: Record<string, string>; rest: string } | undefined {
+	const match = compilePath(nodePath).exec(path);
+	if (match === null) {
+		return undefined;
+	}
+	const params: Record<string, string> = {};
+	for (const [name, value] of Object.entries(match.groups ?? {})) {
+		try {
+			params[name] = decodeURIComponent(value);
+		} catch {
+			params[name] = value;
+		}
+	}
+	return { params, rest: path.slice(match[0].length) || "/" };
+}
+
+// safeParse, recording the outcome on the span of the validation
+function validate(span: Span | undefined, schema: z.ZodType, value: unknown) {
+	const result = schema.safeParse(value);
+	if (span !== undefined) {
+		span.attributes["xprv.validation.success"] = result.success;
+	}
+	return result;
+}
+
+// wrappers whose input has the shape of their inner schema
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+	if (schema instanceof z.ZodPipe) {
+		return unwrapSchema(schema.in as z.ZodType);
+	}
+	const { innerType } = schema._zod.def as { innerType?: z.ZodType };
+	return innerType === undefined ? schema : unwrapSchema(innerType);
+}
+
+// a query key sent once parses to a single value, wrap it where the schema expects an array
+function alignQuery(schema: z.ZodType, value: unknown): unknown {
+	const inner = unwrapSchema(schema);
+	if (inner instanceof z.ZodArray) {
+		return value === undefined || Array.isArray(value) ? value : [value];
+	}
+	if (inner instanceof z.ZodObject && isPlainObject(value)) {
+		const shape = inner.shape as Record<string, z.ZodType>;
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+			key,
+			Object.hasOwn(shape, key) ? alignQuery(shape[key]!, item) : item,
+		]));
+	}
+	return value;
+}
+
+// template of a matched route, e.g. "/users/:id"
+function routeTemplate(nodes: MatchedNode[]): string {
+	const segments = nodes.flatMap(({ node }) => (node.path as string).split("/").filter((segment) => segment !== ""));
+	return "/" + segments.join("/");
+}
+
+/**
+ * Routes a request through a node tree and runs the matched handler
+ */
+class Dispatcher {
+	private readonly traces = new WeakMap<XPRVRequest, RequestTrace>();
+
+	constructor(
+		private readonly rootNode: JsonRouteNode<any, any, any>,
+		private readonly settings: DispatchSettings
+	) {}
+
+	async dispatch(raw: Request, options: XPRVRequestOptions = {}): Promise<Response> {
+		const request = createXPRVRequest(raw, options, this.settings.query);
+		const { hooks, tracing } = this.settings;
+		const trace: RequestTrace = {
+			event: {
+				request,
+				method: request.method,
+				route: undefined,
+				startedAt: Date.now(),
+			},
+			start: performance.now(),
+			errors: [],
+			done: false,
+		};
+		this.traces.set(request, trace);
+		if (tracing !== undefined) {
+			// continues the trace of the caller when it sent a traceparent
+			trace.tracer = new RequestTracer(request.method, "server", parseTraceparent(request.get("traceparent")));
+			request.traceparent = trace.tracer.traceparent;
+		}
+
+		// a failure while routing is answered like one in a handler
+		const routing = this.span(request, "routing", {}, (): { route: MatchedRoute | undefined } | { error: unknown } => {
+			try {
+				return {
+					route: this.matchNode(this.rootNode, request.method.toLowerCase() as HttpMethod, request.path, {}),
+				};
+			} catch (error) {
+				return { error };
+			}
+		});
+		const route = "route" in routing ? routing.route : undefined;
+		if (route !== undefined) {
+			trace.event.route = routeTemplate(route.nodes);
+		}
+		trace.tracer?.setAttributes({
+			"http.request.method": request.method,
+			...(trace.event.route === undefined ? {} : { "http.route": trace.event.route }),
+		});
+		await callHook(hooks, "onRequest", trace.event);
+
+		let response = "error" in routing
+			? await this.thrown(request, routing.error)
+			: await this.handle(request, route, options);
+
+		// the innermost policy wins, from the app's down to the matched node's
+		const cors = (route?.nodes ?? []).reduce<CorsPolicy | false | undefined>(
+			(policy, { node }) => node.cors ?? policy,
+			this.settings.cors
+		);
+		if (cors) {
+			response = applyCors(response, request, cors, route?.methods ?? []);
+		}
+
+		trace.done = true;
+		for (const error of trace.errors) {
+			await this.reportError(trace, error);
+		}
+		const durationMs = performance.now() - trace.start;
+		this.settings.metrics?.observeRequest({
+			route: trace.event.route,
+			method: request.method,
+			status: response.status,
+			durationSeconds: durationMs / 1000,
+		});
+		await callHook(hooks, "onResponse", {
+			...trace.event,
+			input: trace.input,
+			status: response.status,
+			body: trace.response?.body,
+			durationMs,
+		});
+
+		if (trace.tracer !== undefined && tracing !== undefined) {
+			const { root } = trace.tracer;
+			// e.g. "GET /users/:id", the method alone when no route matched
+			root.name = trace.event.route === undefined ? request.method : `${request.method} ${trace.event.route}`;
+			Object.assign(root.attributes, {
+				"url.path": request.path,
+				"http.response.status_code": response.status,
+			});
+			const spans = trace.tracer.end(response.status >= 500 ? "error" : "ok");
+			if (trace.tracer.sampled) {
+				exportSpans(tracing.exporter, spans);
+			}
+		}
+		return response;
+	}
+
+	/**
+	 * Run a phase of a request in a span, when tracing is on
+	 */
+	private span<T>(
+		request: XPRVRequest,
+		name: string,
+		attributes: SpanAttributes,
+		run: (span: Span | undefined) => T
+	): T {
+		const tracer = this.traces.get(request)?.tracer;
+		return tracer === undefined ? run(undefined) : tracer.span(name, attributes, run);
+	}
+
+	private reportError(trace: RequestTrace, error: unknown): Promise<void> {
+		return callHook(this.settings.hooks, "onError", {
+			...trace.event,
+			input: trace.input,
+			error,
+			durationMs: performance.now() - trace.start,
+		});
+	}
+
+	/**
+	 * Keep an error sent to `onInternalServerError` for the `onError` hook,
+	 * errors of streams that are already being sent are reported right away
+	 */
+	private recordError(request: XPRVRequest, error: unknown) {
+		const trace = this.traces.get(request);
+		if (trace === undefined) {
+			return;
+		}
+		if (trace.done) {
+			void this.reportError(trace, error);
+		} else {
+			trace.errors.push(error);
+		}
+	}
+
+	private async handle(
+		request: XPRVRequest,
+		route: MatchedRoute | undefined,
+		options: XPRVRequestOptions
+	): Promise<Response> {
+		const { errorHandlers } = this.settings;
+
+		try {
+			if (route === undefined) {
+				return this.respond(request, errorHandlers.onNotFound(request));
+			}
+
+			// preflights and OPTIONS without a handler are answered from the registered methods,
+			// before guards run since preflights carry no credentials
+			if (request.method === "OPTIONS" && (route.handler === undefined || isPreflightRequest(request))) {
+				return new Response(null, { status: 204, headers: { allow: route.methods.join(", ") } });
+			}
+
+			if (!("body" in options)) {
+				try {
+					request.body = await this.span(request, "parse body", {}, () => this.readBody(request, route.handler));
+				} catch (error) {
+					if (!(error instanceof BodyParseError)) {
+						throw error;
+					}
+					return this.respond(request, errorHandlers.onBodyParseError(error, request));
+				}
+			}
+
+			let scope: JsonRouteScopeState = options.context === undefined
+				? { input: {}, context: {} }
+				: { input: {}, context: options.context, fixed: true };
+			for (const { node, params } of route.nodes) {
+				// params of parent nodes stay visible to nested nodes and handlers
+				request.params = params;
+				const entered = await this.enterNode(node, request, scope);
+				if (entered instanceof Response) {
+					return entered;
+				}
+				scope = entered;
+			}
+
+			if (route.handler === undefined) {
+				if (scope.failures !== undefined) {
+					return this.validationFailed(request, scope.failures);
+				}
+				const response = await this.respond(request, errorHandlers.onMethodNotAllowed(request));
+				response.headers.set("allow", route.methods.join(", "));
+				return response;
+			}
+			const response = await this.runHandler(route.handler, request, scope);
+			if (!route.head) {
+				return response;
+			}
+			// stop event streams, heartbeats and file reads the GET handler started
+			await response.body?.cancel();
+			return new Response(null, { status: response.status, headers: response.headers });
+		} catch (error) {
+			return this.thrown(request, error);
+		}
+	}
+
+	/**
+	 * Find the nodes matching a path and the handler for the request method
+	 * A node with handlers that matches the whole path ends the search,
+	 * with no handler when the method is not allowed
+	 */
+	private matchNode(
+		node: JsonRouteNode<any, any, any>,
+		method: HttpMethod,
+		path: string,
+		params: Record<string, string>
+	): MatchedRoute | undefined {
+		const match = matchPath(node.path, path);
+		if (match === undefined) {
+			return undefined;
+		}
+		const matched = { node, params: { ...params, ...match.params } };
+
+		if (match.rest === "/") {
+			const handlers = node.handlers as Partial<Record<HttpMethod, JsonRouteHandler<any, any, any>>>;
+			// HEAD is answered by the GET handler without a body
+			const handler = handlers[method] ?? (method === "head" ? handlers.get : undefined);
+			if (handler !== undefined || Object.keys(handlers).length > 0) {
+				return { nodes: [matched], handler, head: method === "head", methods: allowedMethods(handlers) };
+			}
+		}
+
+		for (const child of node.children) {
+			const route = this.matchNode(child, method, match.rest, matched.params);
+			if (route !== undefined) {
+				return { ...route, nodes: [matched, ...route.nodes] };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Parse the body with the app body parsers, overridden by the handler's
+	 * Multipart bodies are only read for handlers declaring files
+	 */
+	private async readBody(
+		request: XPRVRequest,
+		handler: JsonRouteHandler<any, any, any> | undefined
+	): Promise<unknown> {
+		const parsers = mergeBodyParsers(this.settings.bodyParsers, handler?.bodyParsers);
+		if (handler?.uploads !== undefined && isMultipartRequest(request)) {
+			return parseMultipart(request.raw, parsers.multipart?.limit);
+		}
+		return parseBody(request, parsers);
+	}
+
+	/**
+	 * Authenticate, validate a node's inputs and run its guard and rate limit,
+	 * returning the scope of its descendants or the response to send
+	 */
+	private async enterNode(
+		node: JsonRouteNode<any, any, any>,
+		request: XPRVRequest,
+		scope: JsonRouteScopeState
+	): Promise<JsonRouteScopeState | Response> {
+		if (
+			node.input === undefined
+			&& node.guard === undefined
+			&& node.rateLimiter === undefined
+			&& node.auth === undefined
+		) {
+			return scope;
+		}
+
+		// once a node failed validation in "all" mode, nested nodes only validate their inputs
+		const failed = scope.failures !== undefined;
+		let context = scope.context;
+		if (node.auth !== undefined && scope.fixed === undefined && !failed) {
+			const result = await node.auth.authenticate(request);
+			if ("response" in result) {
+				return this.respond(request, result.response);
+			}
+			context = { ...context, principal: result.principal };
+		}
+
+		const validated = { ...scope.input };
+		const failures: ValidationFailure[] = [];
+		for (const where of inputLocations) {
+			const schema = node.input?.[where];
+			if (schema === undefined) {
+				continue;
+			}
+			const result = this.span(
+				request,
+				`validate ${where}`,
+				{ "xprv.node.path": node.path },
+				(span) => validate(span, schema, where === "query" ? alignQuery(schema, request.query) : request[where] || {})
+			);
+			if (!result.success) {
+				failures.push({ where, error: result.error });
+				if (this.settings.validationMode === "first") {
+					break;
+				}
+				continue;
+			}
+			validated[where] = mergeInputPart(scope.input[where], result.data);
+		}
+		if (failures.length > 0 || failed) {
+			return this.settings.validationMode === "first"
+				? this.validationFailed(request, failures)
+				: { ...scope, input: validated, context, failures: [...scope.failures ?? [], ...failures] };
+		}
+
+		if (node.guard !== undefined && scope.fixed === undefined) {
+			// the inputs validated so far over the raw ones, e.g. params no enclosing node declares
+			const result = await node.guard(
+				request,
+				{
+					headers: mergeInputPart(request.headers, validated.headers),
+					query: mergeInputPart(request.query, validated.query),
+					params: mergeInputPart(request.params, validated.params),
+					body: mergeInputPart(request.body, validated.body),
+				},
+				context,
+				continueWith
+			);
+			if (!isMiddlewareNext(result)) {
+				return this.respond(request, result);
+			}
+			context = { ...context, ...(result.context as object) };
+		}
+
+		if (node.rateLimiter !== undefined && scope.fixed === undefined) {
+			const result = await node.rateLimiter(request, context, continueWith);
+			if (!isMiddlewareNext(result)) {
+				return this.respond(request, result);
+			}
+		}
+
+		return { ...scope, input: validated, context };
+	}
+
+	private async runHandler(
+		handler: JsonRouteHandler<any, any, any>,
+		request: XPRVRequest,
+		scope: JsonRouteScopeState
+	): Promise<Response> {
+		// parse the headers, query, params, and body
+
+		const validateInput = (where: ValidationLocation, schema: z.ZodType, value: unknown) =>
+			this.span(request, `validate ${where}`, {}, (span) => validate(span, schema, value || {}));
+		const headersResult = validateInput("headers", handler.schemas.headers, request.headers);
+		const queryResult = validateInput("query", handler.schemas.query, alignQuery(handler.schemas.query, request.query));
+		const paramsResult = validateInput("params", handler.schemas.params, request.params);
+		const bodyResult = validateInput("body", handler.schemas.body, request.body);
+
+		// failures of enclosing nodes come first
+		const failures: ValidationFailure[] = [...scope.failures ?? []];
+		if (!headersResult.success) {
+			failures.push({ where: "headers", error: headersResult.error });
+		}
+		if (!queryResult.success) {
+			failures.push({ where: "query", error: queryResult.error });
+		}
+		if (!paramsResult.success) {
+			failures.push({ where: "params", error: paramsResult.error });
+		}
+		if (!bodyResult.success) {
+			failures.push({ where: "body", error: bodyResult.error });
+		}
+		if (
+			failures.length > 0
+			|| !headersResult.success
+			|| !queryResult.success
+			|| !paramsResult.success
+			|| !bodyResult.success
+		) {
+			return this.validationFailed(request, failures);
+		}
+
+		// inputs validated by enclosing nodes win over the handler's own
+		const headers = mergeInputPart(headersResult.data, scope.input.headers);
+		const query = mergeInputPart(queryResult.data, scope.input.query);
+		// every param of the full path is typed as a string even when no schema
+		// declares it, so keep the raw values under the validated ones
+		const params = mergeInputPart(
+			mergeInputPart(request.params, paramsResult.data),
+			scope.input.params
+		);
+		const body = mergeInputPart(bodyResult.data, scope.input.body);
+
+		const trace = this.traces.get(request);
+		if (trace !== undefined) {
+			trace.input = { headers, query, params, body };
+			await callHook(this.settings.hooks, "onValidated", { ...trace.event, input: trace.input });
+		}
+
+		const provided = scope.fixed
+			? {}
+			: await this.span(request, "context provider", {}, () => handler.contextProvider(request));
+		const context = isPlainObject(provided) && !isJsonResponse(provided)
+			? { ...scope.context, ...provided }
+			: provided;
+		const chainResult = isJsonResponse(context)
+			? context
+			: await this.span(request, "middlewares", {}, () =>
+				runMiddlewares(scope.fixed ? [] : handler.middlewares, request, context)
+			);
+		const mismatches: OutputValidationError[] = [];
+		const response = isMiddlewareNext(chainResult)
+			? applyOutputSchemas(
+				handler.outputs,
+				await this.span(request, "handler", {}, () => handler.method(
+					{ headers, query, params, body },
+					chainResult.context
+				)),
+				this.settings.outputValidation,
+				(error) => mismatches.push(error)
+			)
+			: chainResult;
+		if (trace !== undefined) {
+			for (const error of mismatches) {
+				await callHook(this.settings.hooks, "onOutputMismatch", { ...trace.event, input: trace.input, error });
+			}
+		}
+
+		return this.respond(request, response);
+	}
+
+	/**
+	 * Report validation failures through `onValidationError`
+	 * In "all" mode the issues of every location are merged into one error,
+	 * each issue path starting with its location
+	 */
+	private validationFailed(request: XPRVRequest, failures: ValidationFailure[]): Promise<Response> {
+		const { errorHandlers, validationMode, metrics } = this.settings;
+		for (const { where } of failures) {
+			metrics?.countValidationFailure({
+				route: this.traces.get(request)?.event.route,
+				method: request.method,
+				location: where,
+			});
+		}
+		const [first] = failures as [ValidationFailure, ...ValidationFailure[]];
+		const response = validationMode === "all"
+			? errorHandlers.onValidationError(
+				[...new Set(failures.map(({ where }) => where))],
+				new z.ZodError(failures.flatMap(({ where, error }) =>
+					error.issues.map((issue) => ({ ...issue, path: [where, ...issue.path] }))
+				)),
+				request
+			)
+			: errorHandlers.onValidationError(first.where, first.error, request);
+		return this.respond(request, response);
+	}
+
+	private respond(request: XPRVRequest, response: JsonResponse<any, any, any>): Promise<Response> {
+		const trace = this.traces.get(request);
+		if (trace !== undefined) {
+			trace.response = response;
+		}
+		return this.span(request, "serialize", { "http.response.status_code": response.status }, () =>
+			toFetchResponse(response, request, (error) => {
+				if (isHttpError(error)) {
+					return error.response.body;
+				}
+				this.recordError(request, error);
+				return this.settings.errorHandlers.onInternalServerError(error, request).body;
+			})
+		);
+	}
+
+	/**
+	 * Turn a thrown error into a response: HttpErrors as their response,
+	 * anything else through `onInternalServerError`
+	 */
+	private async thrown(request: XPRVRequest, error: unknown): Promise<Response> {
+		const { errorHandlers } = this.settings;
+		if (isHttpError(error)) {
+			try {
+				return await this.respond(request, error.response);
+			} catch (responseError) {
+				error = responseError;
+			}
+		}
+		this.recordError(request, error);
+		return this.respond(request, errorHandlers.onInternalServerError(error, request));
+	}
+}
+
+export interface CreateDispatchOptions extends DispatchSettings {
+	rootNode: JsonRouteNode<any, any, any>;
+}
+
+/**
+ * Create the runtime-neutral entry point of a node tree
+ * It takes a fetch Request and resolves with the Response to send
+ */
+export function createDispatch({ rootNode, ...settings }: CreateDispatchOptions) {
+	const dispatcher = new Dispatcher(rootNode, settings);
+	return (request: Request, options?: XPRVRequestOptions) => dispatcher.dispatch(request, options);
+}
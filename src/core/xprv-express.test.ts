@@ -0,0 +1,90 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import express from "express";
+import { z } from "zod";
+import xprv from "../index";
+import { listen, close } from "../test-utils";
+
+describe("express router", () => {
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "whoami",
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider((request) => ({
+                                ip: request.ip ?? null,
+                                path: request.path,
+                                express: request.platform.express !== undefined,
+                            }))
+                            .handle(async (input, context) => xprv.json({ status: 200, body: context })),
+                    },
+                }),
+                xprv.node({
+                    path: "echo",
+                    handlers: {
+                        post: xprv.handler
+                            .withInput({ body: z.object({ message: z.string() }) })
+                            .handle(async ({ body }) => xprv.json({ status: 201, body: { message: body.message } })),
+                    },
+                }),
+            ],
+        }),
+    });
+
+    const expressApp = express();
+    expressApp.set("trust proxy", true);
+    expressApp.use("/api", app.buildRouter());
+    expressApp.use("/parsed", express.json(), app.buildRouter());
+    const server = createServer(expressApp);
+    let origin = "";
+
+    before(async () => {
+        origin = await listen(server);
+    });
+
+    after(() => close(server));
+
+    it("routes relative to the mount point and exposes the express request", async () => {
+        const response = await fetch(`${origin}/api/whoami`, { headers: { "x-forwarded-for": "203.0.113.7" } });
+        assert.equal(response.status, 200);
+        // the client address honours the "trust proxy" setting
+        assert.deepEqual(await response.json(), { ip: "203.0.113.7", path: "/whoami", express: true });
+    });
+
+    it("reads the body itself when no upstream middleware did", async () => {
+        const response = await fetch(`${origin}/api/echo`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ message: "hello" }),
+        });
+        assert.equal(response.status, 201);
+        assert.deepEqual(await response.json(), { message: "hello" });
+    });
+
+    it("uses a body already parsed by upstream middleware", async () => {
+        const response = await fetch(`${origin}/parsed/echo`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ message: "parsed" }),
+        });
+        assert.equal(response.status, 201);
+        assert.deepEqual(await response.json(), { message: "parsed" });
+
+        const invalid = await fetch(`${origin}/parsed/echo`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ message: 1 }),
+        });
+        assert.equal(invalid.status, 400);
+    });
+
+    it("answers unknown paths under the mount point with the app's 404", async () => {
+        const response = await fetch(`${origin}/api/missing`);
+        assert.equal(response.status, 404);
+        assert.match(response.headers.get("content-type") ?? "", /application\/json/);
+    });
+});
@@ -0,0 +1,154 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { connect } from "node:net";
+import { z } from "zod";
+import xprv from "../index";
+import { createNodeListener, writeFetchResponse } from "./xprv-node";
+import { listen, close } from "../test-utils";
+
+describe("node listener", () => {
+    let closed: AbortSignal | undefined;
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "whoami",
+                    handlers: {
+                        get: xprv.handler
+                            .withContextProvider((request) => ({ ip: request.ip ?? null, url: request.url.href }))
+                            .handle(async (input, context) => xprv.json({
+                                status: 200,
+                                body: { ip: context.ip, url: context.url },
+                            })),
+                    },
+                }),
+                xprv.node({
+                    path: "echo",
+                    handlers: {
+                        post: xprv.handler
+                            .withInput({ body: z.object({ message: z.string() }) })
+                            .handle(async ({ body }) => xprv.json({ status: 201, body: { message: body.message } })),
+                    },
+                }),
+                xprv.node({
+                    path: "events",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.eventStream(async function* ({ signal }) {
+                            closed = signal;
+                            yield xprv.event({ data: "first" });
+                            await new Promise((resolve) => signal.addEventListener("abort", resolve));
+                        })),
+                    },
+                }),
+            ],
+        }),
+    });
+    const server = createServer(app.nodeListener());
+    let origin = "";
+
+    before(async () => {
+        origin = await listen(server);
+    });
+
+    after(() => close(server));
+
+    it("exposes the client address and the full URL on the request", async () => {
+        const response = await fetch(`${origin}/whoami?page=2`);
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { ip: "127.0.0.1", url: `${origin}/whoami?page=2` });
+    });
+
+    it("streams the request body to the handler", async () => {
+        const response = await fetch(`${origin}/echo`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ message: "hello" }),
+        });
+        assert.equal(response.status, 201);
+        assert.deepEqual(await response.json(), { message: "hello" });
+    });
+
+    it("answers through the app's error handlers", async () => {
+        assert.equal((await fetch(`${origin}/missing`)).status, 404);
+        assert.equal((await fetch(`${origin}/echo`)).status, 405);
+    });
+
+    it("aborts the event stream when the client disconnects", async () => {
+        const controller = new AbortController();
+        const response = await fetch(`${origin}/events`, { signal: controller.signal });
+        const reader = response.body!.getReader();
+        const { value } = await reader.read();
+        assert.match(new TextDecoder().decode(value), /data: "first"/);
+
+        controller.abort();
+        await new Promise<void>((resolve) => {
+            if (closed?.aborted) {
+                resolve();
+            }
+            closed?.addEventListener("abort", () => resolve());
+        });
+        assert.equal(closed?.aborted, true);
+    });
+});
+
+describe("node listener failures", () => {
+    const server = createServer(createNodeListener(async () => {
+        throw new Error("dispatch failed");
+    }));
+    let origin = "";
+
+    before(async () => {
+        origin = await listen(server);
+    });
+
+    after(() => close(server));
+
+    // fetch always sends a valid Host, so write the request by hand
+    function sendRaw(head: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const socket = connect(Number(new URL(origin).port), "127.0.0.1");
+            let received = "";
+            socket.on("data", (chunk) => { received += chunk; });
+            socket.on("end", () => resolve(received));
+            socket.on("error", reject);
+            socket.end(`${head}\r\nConnection: close\r\n\r\n`);
+        });
+    }
+
+    it("answer 400 to a request whose URL does not parse", async () => {
+        const response = await sendRaw("GET /whoami HTTP/1.1\r\nHost: bad host");
+        assert.match(response, /^HTTP\/1\.1 400 /);
+        assert.match(response, /\{"error":"Bad Request"\}$/);
+    });
+
+    it("answer 500 when the dispatch fails", async () => {
+        const response = await fetch(`${origin}/whoami`);
+        assert.equal(response.status, 500);
+        assert.deepEqual(await response.json(), { error: "Internal Server Error" });
+    });
+});
+
+describe("writeFetchResponse", () => {
+    const server = createServer(async (req, res) => {
+        const headers = new Headers({ "x-request": req.url ?? "" });
+        headers.append("set-cookie", "a=1");
+        headers.append("set-cookie", "b=2");
+        await writeFetchResponse(res, new Response(null, { status: 204, headers }));
+    });
+    let origin = "";
+
+    before(async () => {
+        origin = await listen(server);
+    });
+
+    after(() => close(server));
+
+    it("writes each cookie as its own header", async () => {
+        const response = await fetch(`${origin}/cookies`);
+        assert.equal(response.status, 204);
+        assert.equal(response.headers.get("x-request"), "/cookies");
+        assert.deepEqual(response.headers.getSetCookie(), ["a=1", "b=2"]);
+    });
+});
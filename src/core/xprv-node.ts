@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TLSSocket } from "node:tls";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { XPRVRequestOptions } from "./xprv-request";
+
+/**
+ * Runtime-neutral entry point of an app, see `XPRVApp.fetch`
+ */
+export type XPRVDispatch = (request: Request, options?: XPRVRequestOptions) => Promise<Response>;
+
+export interface FetchRequestOptions {
+    // URL to expose on the request, defaults to `req.url`
+    url?: string;
+    // false when the body was already read by the host server
+    readBody?: boolean;
+}
+
+/**
+ * Build a fetch Request from a Node request
+ * Its signal is aborted when the client disconnects before the response is sent
+ */
+export function toFetchRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: FetchRequestOptions = {}
+): Request {
+    const protocol = (req.socket as TLSSocket).encrypted ? "https" : "http";
+    const url = new URL(options.url ?? req.url ?? "/", `${protocol}://${req.headers.host ?? "localhost"}`);
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        // HTTP/2 pseudo headers are not valid header names
+        if (value === undefined || name.startsWith(":")) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            headers.append(name, item);
+        }
+    }
+
+    const abortController = new AbortController();
+    res.on("close", () => {
+        if (!res.writableFinished) {
+            abortController.abort();
+        }
+    });
+
+    const method = req.method ?? "GET";
+    const hasBody = options.readBody !== false && method !== "GET" && method !== "HEAD";
+    return new Request(url, {
+        method,
+        headers,
+        signal: abortController.signal,
+        body: hasBody ? Readable.toWeb(req) as ReadableStream<Uint8Array> : null,
+        duplex: "half",
+    } as RequestInit);
+}
+
+/**
+ * Write a fetch Response to a Node response
+ */
+export async function writeFetchResponse(res: ServerResponse, response: Response) {
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => {
+        if (name !== "set-cookie") {
+            res.setHeader(name, value);
+        }
+    });
+    const cookies = response.headers.getSetCookie();
+    if (cookies.length > 0) {
+        res.setHeader("set-cookie", cookies);
+    }
+
+    if (response.body === null) {
+        res.end();
+        return;
+    }
+
+    // streamed bodies (e.g. event streams) should not wait for their first chunk
+    if (!response.headers.has("content-length")) {
+        res.flushHeaders();
+    }
+    try {
+        await pipeline(Readable.fromWeb(response.body as import("node:stream/web").ReadableStream), res);
+    } catch {
+        // the client disconnected, the body stream has been cancelled
+    }
+}
+
+/**
+ * Answer a request the app could not, when no response was started yet
+ */
+function writeFailure(res: ServerResponse, status: 400 | 500) {
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    res.statusCode = status;
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ error: status === 400 ? "Bad Request" : "Internal Server Error" }));
+}
+
+/**
+ * Listener for `http.createServer` that dispatches every request
+ * A request whose URL does not parse (e.g. `Host: bad host`) is answered 400 without reaching the app,
+ * and a dispatch failure 500, so the returned promise never rejects
+ */
+export function createNodeListener(dispatch: XPRVDispatch) {
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        let request: Request;
+        try {
+            request = toFetchRequest(req, res);
+        } catch (error) {
+            writeFailure(res, (error as { code?: unknown }).code === "ERR_INVALID_URL" ? 400 : 500);
+            return;
+        }
+        try {
+            const response = await dispatch(
+                request,
+                req.socket.remoteAddress === undefined ? {} : { ip: req.socket.remoteAddress }
+            );
+            await writeFetchResponse(res, response);
+        } catch {
+            writeFailure(res, 500);
+        }
+    };
+}
@@ -0,0 +1,90 @@
+import type express from "express";
+import { defaultQueryCodec, ParsedQuery, QueryCodec } from "./query-codec";
+
+/**
+ * Objects of the server a request came through, set by its adapter
+ */
+export interface XPRVRequestPlatform {
+    express?: {
+        req: express.Request;
+        res: express.Response;
+    };
+}
+
+/**
+ * Runtime-neutral request given to context providers, middlewares, guards and error handlers
+ */
+export interface XPRVRequest {
+    // upper case, e.g. "GET"
+    readonly method: string;
+    readonly url: URL;
+    // path routed through the node tree, relative to where the app is mounted
+    readonly path: string;
+    // client address, when the adapter knows it
+    readonly ip: string | undefined;
+    // lower-cased names, repeated headers are joined with ", "
+    readonly headers: Record<string, string>;
+    // parsed by the app's query codec, repeated keys become arrays and bracketed keys nested objects
+    readonly query: ParsedQuery;
+    // params of the path matched so far
+    params: Record<string, string>;
+    // body parsed by the app or handler body parsers, undefined when there is none
+    body: unknown;
+    // aborted when the client disconnects
+    readonly signal: AbortSignal;
+    // the underlying fetch Request, its body may already be consumed
+    readonly raw: Request;
+    readonly platform: XPRVRequestPlatform;
+    // traceparent of the request's span when tracing is on, send it with downstream requests to continue the trace
+    traceparent: string | undefined;
+    // header value by case-insensitive name
+    get(name: string): string | undefined;
+}
+
+export interface XPRVRequestOptions {
+    // path to route, defaults to the pathname of the request URL
+    path?: string;
+    // body already parsed by the host server, the body parsers are then skipped
+    body?: unknown;
+    platform?: XPRVRequestPlatform;
+    // client address, e.g. from `server.requestIP(request)` on Bun
+    ip?: string;
+    // context handed to handlers as is, auth schemes, guards, context providers, middlewares and rate limits are skipped
+    // used by the test client to fake auth
+    context?: object;
+}
+
+// repeated keys become arrays
+export function parseSearchParams(searchParams: URLSearchParams): Record<string, string | string[]> {
+    const query: Record<string, string | string[]> = {};
+    for (const [key, value] of searchParams) {
+        const existing = query[key];
+        query[key] = existing === undefined
+            ? value
+            : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+    return query;
+}
+
+export function createXPRVRequest(
+    request: Request,
+    options: XPRVRequestOptions = {},
+    queryCodec: QueryCodec = defaultQueryCodec
+): XPRVRequest {
+    const url = new URL(request.url);
+    return {
+        method: request.method.toUpperCase(),
+        url,
+        path: options.path ?? url.pathname,
+        ip: options.ip,
+        headers: Object.fromEntries(request.headers),
+        query: queryCodec.parse(url.search),
+        params: {},
+        body: options.body,
+        signal: request.signal,
+        raw: request,
+        platform: options.platform ?? {},
+        traceparent: undefined,
+        get: (name) => request.headers.get(name) ?? undefined,
+    };
+}
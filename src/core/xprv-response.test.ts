@@ -0,0 +1,123 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import xprv, { createTestClient } from "../index";
+import { get } from "../test-utils";
+
+describe("non-JSON responses", () => {
+    let directory = "";
+
+    before(async () => {
+        directory = await mkdtemp(join(tmpdir(), "xprv-"));
+        await writeFile(join(directory, "report.csv"), "a,b\n1,2\n");
+    });
+
+    after(() => rm(directory, { recursive: true, force: true }));
+
+    const app = xprv.app({
+        rootNode: xprv.node({
+            path: "/",
+            children: [
+                xprv.node({
+                    path: "/text",
+                    handlers: { get: xprv.handler.handle(async () => xprv.text("héllo")) },
+                }),
+                xprv.node({
+                    path: "/bytes",
+                    handlers: { get: xprv.handler.handle(async () => xprv.binary(Buffer.from([1, 2, 3]))) },
+                }),
+                xprv.node({
+                    path: "/stream",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.binary(Readable.from([Buffer.from("ab"), Buffer.from("cd")]), {
+                            contentType: "text/plain",
+                        })),
+                    },
+                }),
+                xprv.node({
+                    path: "/report",
+                    handlers: {
+                        get: xprv.handler.handle(async () => xprv.file(join(directory, "report.csv"), {
+                            contentType: "text/csv",
+                            filename: "rapport été.csv",
+                        })),
+                    },
+                }),
+                xprv.node({
+                    path: "/missing",
+                    handlers: { get: xprv.handler.handle(async () => xprv.file(join(directory, "missing.csv"))) },
+                }),
+                xprv.node({
+                    path: "/old",
+                    handlers: { get: xprv.handler.handle(async () => xprv.redirect(308, "/text")) },
+                }),
+            ],
+        }),
+    });
+
+    it("send text with its length and charset", async () => {
+        const response = await get(app, "/text");
+        assert.equal(response.headers.get("content-type"), "text/plain; charset=utf-8");
+        assert.equal(response.headers.get("content-length"), "6");
+        assert.equal(await response.text(), "héllo");
+    });
+
+    it("send buffers and streams as bytes", async () => {
+        const bytes = await get(app, "/bytes");
+        assert.equal(bytes.headers.get("content-type"), "application/octet-stream");
+        assert.deepEqual(new Uint8Array(await bytes.arrayBuffer()), new Uint8Array([1, 2, 3]));
+
+        const stream = await get(app, "/stream");
+        assert.equal(stream.headers.get("content-type"), "text/plain");
+        assert.equal(await stream.text(), "abcd");
+    });
+
+    it("send files as attachments, with a fallback for non-ASCII names", async () => {
+        const response = await get(app, "/report");
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("content-type"), "text/csv");
+        assert.equal(response.headers.get("content-length"), "8");
+        assert.equal(
+            response.headers.get("content-disposition"),
+            "attachment; filename=\"rapport _t_.csv\"; filename*=UTF-8''rapport%20%C3%A9t%C3%A9.csv"
+        );
+        assert.equal(await response.text(), "a,b\n1,2\n");
+    });
+
+    it("answer a missing file through onInternalServerError", async (t) => {
+        t.mock.method(console, "error", () => {});
+        const response = await get(app, "/missing");
+        assert.equal(response.status, 500);
+    });
+
+    it("send redirects with their location", async () => {
+        const response = await get(app, "/old");
+        assert.equal(response.status, 308);
+        assert.equal(response.headers.get("location"), "/text");
+        assert.equal(response.body, null);
+    });
+
+    it("are read back by kind by the client", async () => {
+        const client = createTestClient(app);
+
+        const text = await client.get("/text");
+        assert.equal(text.kind, "text");
+        assert.equal(text.body, "héllo");
+
+        const report = await client.get("/report");
+        assert.equal(report.kind, "file");
+        if (report.kind === "file") {
+            assert.equal(report.filename, "rapport été.csv");
+            assert.equal(await report.body.text(), "a,b\n1,2\n");
+        }
+
+        const old = await client.get("/old");
+        assert.equal(old.kind, "redirect");
+        if (old.kind === "redirect") {
+            assert.equal(old.location, "/text");
+        }
+    });
+});
@@ -0,0 +1,101 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { Readable } from "node:stream";
+import { JsonResponse } from "./json-response";
+import { eventStreamBody, isEventStreamResponse } from "./event-stream";
+import { isNonJsonResponse, NonJsonResponse } from "./non-json-response";
+import { XPRVRequest } from "./xprv-request";
+
+// statuses a fetch Response may not carry a body with
+const nullBodyStatuses = new Set([101, 204, 205, 304]);
+
+function createHeaders(headers: unknown, contentType?: string): Headers {
+    const result = new Headers(headers as Record<string, string>);
+    if (contentType !== undefined && !result.has("content-type")) {
+        result.set("content-type", contentType);
+    }
+    return result;
+}
+
+function textBody(status: number, headers: Headers, body: string | undefined) {
+    if (body === undefined || nullBodyStatuses.has(status)) {
+        return null;
+    }
+    headers.set("content-length", String(Buffer.byteLength(body)));
+    return body;
+}
+
+// quoted ASCII filename, with an RFC 5987 fallback for other characters
+function contentDisposition(filename: string) {
+    const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    return ascii === filename
+        ? `attachment; filename="${filename}"`
+        : `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+async function nonJsonToFetchResponse(response: NonJsonResponse): Promise<Response> {
+    const { status } = response;
+    switch (response.kind) {
+        case "text": {
+            const headers = createHeaders(response.headers, response.contentType);
+            return new Response(textBody(status, headers, response.body), { status, headers });
+        }
+        case "binary": {
+            const headers = createHeaders(response.headers, response.contentType);
+            const body = Buffer.isBuffer(response.body)
+                ? new Uint8Array(response.body)
+                : Readable.toWeb(response.body) as ReadableStream<Uint8Array>;
+            return new Response(nullBodyStatuses.has(status) ? null : body, { status, headers });
+        }
+        case "file": {
+            // fails before anything is sent when the file does not exist
+            const { size } = await stat(response.body);
+            const headers = createHeaders(response.headers, response.contentType ?? "application/octet-stream");
+            headers.set("content-disposition", contentDisposition(response.filename ?? basename(response.body)));
+            headers.set("content-length", String(size));
+            const body = Readable.toWeb(createReadStream(response.body)) as ReadableStream<Uint8Array>;
+            return new Response(body, { status, headers });
+        }
+        case "redirect": {
+            const headers = createHeaders(response.headers);
+            headers.set("location", response.location);
+            return new Response(null, { status, headers });
+        }
+    }
+}
+
+/**
+ * Turn any response a handler, middleware, guard or error handler returns into a fetch Response
+ * `errorBody` gives the body of the `error` event sent when an event stream fails
+ */
+export async function toFetchResponse(
+    response: JsonResponse<any, any, any>,
+    request: XPRVRequest,
+    errorBody: (error: unknown) => unknown
+): Promise<Response> {
+    if (isEventStreamResponse(response)) {
+        const headers = createHeaders(response.headers);
+        headers.set("content-type", "text/event-stream");
+        headers.set("cache-control", "no-cache");
+        headers.set("connection", "keep-alive");
+        headers.set("x-accel-buffering", "no");
+        const body = eventStreamBody(
+            response,
+            { lastEventId: request.get("last-event-id"), signal: request.signal },
+            errorBody
+        );
+        return new Response(body, { status: response.status, headers });
+    }
+
+    if (isNonJsonResponse(response)) {
+        return nonJsonToFetchResponse(response);
+    }
+
+    const headers = createHeaders(response.headers, "application/json; charset=utf-8");
+    const body = response.body === undefined ? undefined : JSON.stringify(response.body);
+    return new Response(textBody(response.status, headers, body), {
+        status: response.status,
+        headers,
+    });
+}
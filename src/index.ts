@@ -1,10 +1,93 @@
 import {handler} from "./core/json-route-handler-builder";
 import {json, JsonResponse, JsonOptions} from './core/json-response'
-import {node, JsonRouteNode, JsonRouteHandlers, JsonRouteNodeOptions} from './core/json-route-node'
+import {node, JsonRouteNode, JsonRouteHandlers, JsonRouteNodeOptions, JsonRouteGuard, JsonRouteScope, JsonRouteNodeFactory} from './core/json-route-node'
 import {JsonRouteHandler, JsonRouteHandlerOptions} from './core/json-route-handler'
 import {JsonRequest} from './core/types/input'
+import type { JsonMiddleware, MiddlewareNext, MiddlewareNextFunction } from './core/json-middleware';
 import type { FlattenRouteTree, FlattenRouteTreeToArray } from './client/flatten-route-tree';
 import { app, XPRVApp, XPRVAppOptions } from "./core/xprv-app";
+import { OutputValidationError } from "./core/output-validation";
+import { fail, HttpError } from "./core/http-error";
+import { event, eventStream, EventStreamControl, EventStreamOptions, EventStreamResponse, ServerSentErrorEvent, ServerSentEvent } from "./core/event-stream";
+import {
+    text,
+    binary,
+    file,
+    redirect,
+    TextResponse,
+    BinaryResponse,
+    FileResponse,
+    RedirectResponse,
+    RedirectStatus,
+} from "./core/non-json-response";
+import { upload, UploadedFile, UploadOptions, UploadArrayOptions, UploadSchemas } from "./core/upload";
+import type { JsonOutputSchemas, OutputMismatchPolicy } from "./core/types/output";
+import type { PathParamNames, PathParams } from "./core/types/path";
+import type { CorsPolicy, CorsOrigin } from "./core/cors";
+import {
+    memoryStore,
+    MemoryStoreOptions,
+    RateLimitAlgorithm,
+    RateLimitHit,
+    RateLimitKey,
+    RateLimitOptions,
+    RateLimitResponse,
+    RateLimitStore,
+} from "./core/rate-limit";
+import {
+    apiKey,
+    basic,
+    bearer,
+    ApiKeyHeaderOptions,
+    ApiKeyQueryOptions,
+    AuthPrincipal,
+    AuthResult,
+    AuthScheme,
+    AuthSchemeInfo,
+    AuthVerify,
+    BasicCredentials,
+    ForbiddenResponse,
+    HttpAuthOptions,
+    UnauthorizedResponse,
+} from "./core/auth";
+import {
+    BodyParseError,
+    BodyParsers,
+    BodyParserOptions,
+    JsonBodyParserOptions,
+    MultipartBodyParserOptions,
+    BodyParserName,
+    BodyParseErrorReason,
+    ByteLimit,
+} from "./core/body-parser";
+import { createTestClient, TestClient, TestClientConfig } from "./client/test-client";
+import type { XPRVRequest, XPRVRequestOptions, XPRVRequestPlatform } from "./core/xprv-request";
+import type { XPRVDispatch } from "./core/xprv-node";
+import {
+    memoryExporter,
+    InMemorySpanExporter,
+    Span,
+    SpanAttributes,
+    SpanExporter,
+    SpanKind,
+    TraceContext,
+    TracingOptions,
+} from "./core/tracing";
+import { MetricsRegistry, MetricsOptions, RequestObservation, ValidationFailureObservation } from "./core/metrics";
+import { responseManifest, ResponseManifest } from "./core/response-manifest";
+import type { ParsedQuery, QueryArrayFormat, QueryCodec, QueryCodecOptions, QueryValue } from "./core/query-codec";
+import type {
+    XPRVHooks,
+    Hook,
+    HookInput,
+    RequestHookEvent,
+    ValidatedHookEvent,
+    ResponseHookEvent,
+    ErrorHookEvent,
+    OutputMismatchHookEvent,
+    HookErrorEvent,
+    HookName,
+} from "./core/hooks";
 
 
 import { JsonRouteHandlerBuilder, JsonRouteHandlerBuilderOptions } from "./core/json-route-handler-builder";
@@ -12,12 +95,27 @@ import { JsonRouteHandlerBuilder, JsonRouteHandlerBuilderOptions } from "./core/
 const xprv = {
     handler,
     json,
+    text,
+    binary,
+    file,
+    redirect,
+    event,
+    eventStream,
+    upload,
+    memoryStore,
+    memoryExporter,
+    responseManifest,
+    auth: { bearer, apiKey, basic },
+    fail,
+    HttpError,
     node,
     app,
 }
 
 export default xprv;
 
+export { OutputValidationError, HttpError, BodyParseError, createTestClient, TestClient, MetricsRegistry };
+
 
 export type {
     FlattenRouteTree,
@@ -30,8 +128,89 @@ export type {
     JsonRouteNode,
     JsonRouteHandlers,
     JsonRouteNodeOptions,
+    JsonRouteGuard,
+    JsonRouteScope,
+    JsonRouteNodeFactory,
     XPRVApp,
     XPRVAppOptions,
+    XPRVRequest,
+    XPRVRequestOptions,
+    XPRVRequestPlatform,
+    XPRVDispatch,
+    XPRVHooks,
+    Hook,
+    HookInput,
+    RequestHookEvent,
+    ValidatedHookEvent,
+    ResponseHookEvent,
+    ErrorHookEvent,
+    OutputMismatchHookEvent,
+    HookErrorEvent,
+    HookName,
+    MetricsOptions,
+    RequestObservation,
+    ValidationFailureObservation,
+    QueryCodec,
+    QueryCodecOptions,
+    QueryArrayFormat,
+    QueryValue,
+    ParsedQuery,
+    ResponseManifest,
+    Span,
+    SpanAttributes,
+    SpanExporter,
+    SpanKind,
+    TraceContext,
+    InMemorySpanExporter,
+    TestClientConfig,
+    BodyParsers,
+    BodyParserOptions,
+    JsonBodyParserOptions,
+    MultipartBodyParserOptions,
+    BodyParserName,
+    BodyParseErrorReason,
+    ByteLimit,
+    CorsPolicy,
+    CorsOrigin,
+    MemoryStoreOptions,
+    RateLimitAlgorithm,
+    RateLimitHit,
+    RateLimitKey,
+    RateLimitOptions,
+    RateLimitResponse,
+    RateLimitStore,
+    AuthScheme,
+    AuthSchemeInfo,
+    AuthResult,
+    AuthPrincipal,
+    AuthVerify,
+    BasicCredentials,
+    HttpAuthOptions,
+    ApiKeyHeaderOptions,
+    ApiKeyQueryOptions,
+    UnauthorizedResponse,
+    ForbiddenResponse,
     JsonRouteHandlerBuilder,
     JsonRouteHandlerBuilderOptions,
+    JsonMiddleware,
+    MiddlewareNext,
+    MiddlewareNextFunction,
+    JsonOutputSchemas,
+    OutputMismatchPolicy,
+    PathParamNames,
+    PathParams,
+    EventStreamControl,
+    EventStreamOptions,
+    EventStreamResponse,
+    ServerSentErrorEvent,
+    ServerSentEvent,
+    TextResponse,
+    BinaryResponse,
+    FileResponse,
+    RedirectResponse,
+    RedirectStatus,
+    UploadedFile,
+    UploadOptions,
+    UploadArrayOptions,
+    UploadSchemas,
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+// Helpers shared by the *.test.ts files, type-checked with tsconfig.test.json and not built
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { XPRVRequestOptions } from "./core/xprv-request";
+
+/**
+ * The part of an XPRVApp the helpers drive
+ */
+export interface TestApp {
+    dispatchRequest(request: Request, options?: XPRVRequestOptions): Promise<Response>;
+}
+
+/**
+ * Send a request for `path` straight to the app, without a server
+ */
+export function send(
+    app: TestApp,
+    method: string,
+    path: string,
+    init: RequestInit = {},
+    options: XPRVRequestOptions = {}
+): Promise<Response> {
+    return app.dispatchRequest(new Request(`http://xprv.test${path}`, { method, ...init }), options);
+}
+
+/**
+ * Send a GET request for `path` straight to the app, without a server
+ */
+export function get(
+    app: TestApp,
+    path: string,
+    headers: Record<string, string> = {},
+    options: XPRVRequestOptions = {}
+): Promise<Response> {
+    return send(app, "GET", path, { headers }, options);
+}
+
+/**
+ * Listen on a free local port, resolving to the server's origin
+ */
+export function listen(server: Server): Promise<string> {
+    return new Promise((resolve) => {
+        server.listen(0, "127.0.0.1", () => {
+            resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        });
+    });
+}
+
+/**
+ * Close the server along with any connection still open on it
+ */
+export function close(server: Server): Promise<void> {
+    return new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => error === undefined ? resolve() : reject(error));
+    });
+}